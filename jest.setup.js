@@ -0,0 +1,9 @@
+// Minimal valid configuration for modules that load src/config on import. Tests
+// point the services they exercise at local fakes; nothing reaches a real network.
+Object.assign(process.env, {
+  MNEMONIC: 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+  ETHEREUM_ADDRESS: '0x000000000000000000000000000000000000dEaD',
+  ETHEREUM_BASE_ADDRESS: '0x000000000000000000000000000000000000dEaD',
+  LOG_TO_FILE: 'false',
+  LOG_LEVEL: 'error',
+});
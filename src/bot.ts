@@ -0,0 +1,696 @@
+import cron from 'node-cron';
+import fs from 'fs';
+import path from 'path';
+import { Bip39, Random } from '@cosmjs/crypto';
+import { SwapOrchestrator } from './services/swapOrchestrator';
+import { ControlApiServer, SchedulerControl } from './services/controlApi';
+import { TelegramCommandBot } from './services/telegramBot';
+import {
+  addressForKey,
+  decryptKeystore,
+  deriveSigningKey,
+  encryptKeystore,
+  getKeystorePassphrase,
+  KeystoreError,
+  MIN_PASSPHRASE_LENGTH,
+  parseSecret,
+  readKeystore,
+  readPassphraseFile,
+  writeKeystore,
+} from './services/keystore';
+import { MetricsServer } from './services/metrics';
+import { RoutePolicy } from './services/routePolicy';
+import { NOTIFICATION_EVENTS, unknownTemplateNames } from './services/notificationTemplates';
+import { renderReportMarkdown, ReportFormat } from './services/reports';
+import { TransactionQuery } from './services/transactionStore';
+import { ExportOptions } from './services/exporters';
+import { config, swapConfig, swapJobs } from './config';
+import { KeystoreSecretType, LotSource, ReportPeriod, SchedulerState, SwapConfig, SwapQuote, SwapTransaction } from './types';
+import { getChainDisplayName } from './utils/chains';
+import { promptSecret } from './utils/prompt';
+import { logger } from './utils/logger';
+
+export class KyveSwapperBot {
+  private orchestrator: SwapOrchestrator;
+  private cronJobs: Map<string, cron.ScheduledTask> = new Map();
+  // Price-triggered jobs poll the oracle instead of running on a cron schedule
+  private triggerPollers: Map<string, NodeJS.Timeout> = new Map();
+  private reportTask: cron.ScheduledTask | null = null;
+  private pausedAt: string | null = null;
+  private controlApi: ControlApiServer | null = null;
+  private telegramBot: TelegramCommandBot | null = null;
+  private metricsServer: MetricsServer | null = null;
+
+  constructor() {
+    this.orchestrator = new SwapOrchestrator();
+  }
+
+  async start(): Promise<void> {
+    try {
+      logger.info('Starting KYVE Swapper Bot...');
+
+      await this.orchestrator.initialize();
+
+      const status = await this.orchestrator.getStatus();
+      logger.info('Bot Status:', status);
+
+      if (swapConfig.dryRun) {
+        logger.warn('DRY RUN MODE ENABLED - No real transactions will be executed');
+      }
+
+      this.setupScheduler();
+
+      if (config.api.enabled) {
+        this.controlApi = new ControlApiServer(
+          this.orchestrator,
+          this.schedulerControl(),
+          { host: config.api.host, port: config.api.port, token: config.api.token! }
+        );
+        await this.controlApi.start();
+      }
+
+      if (config.telegramCommands.enabled) {
+        this.telegramBot = new TelegramCommandBot(this.orchestrator, this.schedulerControl(), {
+          botToken: config.notification.telegramBotToken!,
+          apiUrl: config.notification.telegramApiUrl,
+          ...config.telegramCommands,
+        });
+        await this.telegramBot.start();
+      }
+
+      if (config.metrics.enabled) {
+        this.metricsServer = new MetricsServer(
+          config.metrics.host,
+          config.metrics.port,
+          () => this.orchestrator.refreshBalances()
+        );
+        await this.metricsServer.start();
+      }
+
+      logger.info('Executing initial swap check...');
+      for (const job of swapJobs) {
+        if (job.triggerMode === 'price') {
+          await this.orchestrator.checkPriceTrigger(job);
+        } else {
+          await this.orchestrator.executeSwap(job);
+        }
+      }
+
+      logger.info(`Bot started successfully with ${swapJobs.length} swap job(s)`);
+
+      this.setupShutdownHandlers();
+
+    } catch (error) {
+      logger.error('Failed to start bot:', error);
+      process.exit(1);
+    }
+  }
+
+  private setupScheduler(): void {
+    this.stopScheduler();
+
+    for (const job of swapJobs) {
+      if (job.triggerMode === 'price') {
+        this.startTriggerPoller(job);
+        logger.info(`Price trigger started for job "${job.name}", checking every ${config.swap.triggerPollSeconds}s`);
+        continue;
+      }
+
+      const task = cron.schedule(job.schedule, async () => {
+        logger.info(`Scheduled swap execution started for job "${job.name}"`);
+        await this.orchestrator.executeSwap(job);
+      });
+
+      task.start();
+      this.cronJobs.set(job.name, task);
+      logger.info(`Scheduler started for job "${job.name}" with cron pattern: ${job.schedule}`);
+    }
+
+    if (config.reports.period !== 'off') {
+      const period = config.reports.period;
+      this.reportTask = cron.schedule(config.reports.schedule, async () => {
+        try {
+          await this.orchestrator.publishReport(period, { send: true });
+        } catch (error: any) {
+          logger.error(`Failed to publish ${period} report: ${error.message || error}`);
+        }
+      });
+      logger.info(`${period} reports scheduled with cron pattern: ${config.reports.schedule}`);
+    }
+  }
+
+  private startTriggerPoller(job: SwapConfig): void {
+    const poller = setInterval(() => {
+      this.orchestrator.checkPriceTrigger(job).catch(error => {
+        logger.error(`[${job.name}] Price trigger check failed: ${error.message || error}`);
+      });
+    }, config.swap.triggerPollSeconds * 1000);
+    this.triggerPollers.set(job.name, poller);
+  }
+
+  private stopTriggerPollers(): void {
+    for (const poller of this.triggerPollers.values()) {
+      clearInterval(poller);
+    }
+  }
+
+  private schedulerControl(): SchedulerControl {
+    return {
+      getState: () => this.getSchedulerState(),
+      pause: () => this.pauseScheduler(),
+      resume: () => this.resumeScheduler(),
+    };
+  }
+
+  private getSchedulerState(): SchedulerState {
+    return {
+      paused: this.pausedAt !== null,
+      pausedAt: this.pausedAt || undefined,
+      jobs: [...this.cronJobs.keys(), ...this.triggerPollers.keys()],
+    };
+  }
+
+  // Stops scheduled swaps without forgetting them; swaps already running finish normally
+  private pauseScheduler(): SchedulerState {
+    if (this.pausedAt === null) {
+      for (const task of this.cronJobs.values()) {
+        task.stop();
+      }
+      this.stopTriggerPollers();
+      this.pausedAt = new Date().toISOString();
+      logger.info('Scheduler paused');
+    }
+    return this.getSchedulerState();
+  }
+
+  private resumeScheduler(): SchedulerState {
+    if (this.pausedAt !== null) {
+      for (const task of this.cronJobs.values()) {
+        task.start();
+      }
+      for (const job of swapJobs.filter(job => this.triggerPollers.has(job.name))) {
+        this.startTriggerPoller(job);
+      }
+      this.pausedAt = null;
+      logger.info('Scheduler resumed');
+    }
+    return this.getSchedulerState();
+  }
+
+  private stopScheduler(): void {
+    for (const task of this.cronJobs.values()) {
+      task.stop();
+    }
+    this.cronJobs.clear();
+    this.stopTriggerPollers();
+    this.triggerPollers.clear();
+    this.reportTask?.stop();
+    this.reportTask = null;
+  }
+
+  private setupShutdownHandlers(): void {
+    const shutdown = async (signal: string) => {
+      logger.info(`${signal} received, shutting down gracefully...`);
+
+      this.stopScheduler();
+      await this.controlApi?.stop();
+      await this.telegramBot?.stop();
+      await this.metricsServer?.stop();
+
+      const csvPath = await this.orchestrator.exportTransactions();
+      logger.info(`Final transactions exported to: ${csvPath}`);
+
+      const status = await this.orchestrator.getStatus();
+      logger.info('Final Status:', status);
+
+      this.orchestrator.close();
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => shutdown('SIGTERM'));
+    process.on('SIGINT', () => shutdown('SIGINT'));
+  }
+
+  // Runs each job once, now. Waits for timed-out swaps to settle so the returned records are final.
+  async swap(jobs: SwapConfig[], amount?: number): Promise<SwapTransaction[]> {
+    logger.info('Running single swap execution...');
+    await this.orchestrator.initialize();
+
+    const results: SwapTransaction[] = [];
+    for (const job of jobs) {
+      const result = await this.orchestrator.executeSwap(job, amount);
+      if (result) {
+        logger.info(`Swap ${result.status} for job "${job.name}"`, { id: result.id, txHash: result.txHash });
+        results.push(result);
+      } else {
+        logger.info(`No swap executed for job "${job.name}" (conditions not met)`);
+      }
+    }
+
+    // A timed-out swap keeps executing; stay alive until it settles so its record is final
+    await this.orchestrator.waitForInFlight();
+
+    const csvPath = await this.orchestrator.exportTransactions();
+    logger.info(`Transactions exported to: ${csvPath}`);
+
+    return results.map(result => this.orchestrator.getTransaction(result.id) || result);
+  }
+
+  async quote(job: SwapConfig, amount: number | undefined, json: boolean): Promise<SwapQuote> {
+    await this.orchestrator.initializeWallet();
+    const quote = await this.orchestrator.getQuote(job, amount);
+
+    if (json) {
+      console.log(JSON.stringify(quote, null, 2));
+      return quote;
+    }
+
+    console.log(`\nQuote for job "${quote.jobName}"`);
+    console.log('======================');
+    console.log(`  Route: ${quote.fromToken} (${quote.fromChainId}) → ${quote.toToken} (${getChainDisplayName(quote.toChainId)})`);
+    console.log(`  Send: ${quote.amountInFormatted} ${quote.fromToken} ($${quote.amountInUSD.toFixed(2)})`);
+    console.log(`  Receive: ~${quote.amountOutFormatted} ${quote.toToken}`);
+    console.log(`  Rate: ${quote.effectiveRate.toFixed(6)} ${quote.toToken} per ${quote.fromToken}`);
+    console.log(`  Oracle Rate: ${quote.priceCheck.oracleRate.toFixed(6)} (${quote.priceCheck.deviationPercent >= 0 ? '+' : ''}${quote.priceCheck.deviationPercent.toFixed(2)}%)`);
+    console.log(`  Route Fees: $${quote.routeFeesUSD.toFixed(4)}`);
+    if (quote.destinationChoice) {
+      console.log('\nDestinations Compared:');
+      for (const candidate of quote.destinationChoice.candidates) {
+        const marker = candidate.destination === quote.destinationChoice.chosen ? '  ← chosen' : '';
+        const detail = candidate.netUSD === undefined
+          ? `no route (${candidate.error})`
+          : `~$${candidate.netUSD.toFixed(2)} net, fees $${candidate.feesUSD!.toFixed(2)}` +
+            (candidate.violations!.length > 0 ? `, breaks route policy: ${candidate.violations!.join('; ')}` : '');
+        console.log(`  ${candidate.destination}: ${detail}${marker}`);
+      }
+    }
+
+    const route = quote.route;
+    console.log(`\nRoute (${route.steps.length} steps, ${route.txsRequired} transaction(s), ~${this.formatDuration(route.estimatedDurationSeconds)})`);
+    console.log(`  Chains: ${route.chainIds.map(chainId => getChainDisplayName(chainId)).join(' → ')}`);
+    if (route.priceImpactPercent !== undefined) {
+      console.log(`  Price Impact: ${route.priceImpactPercent.toFixed(2)}%`);
+    }
+    if (route.usdAmountIn !== undefined && route.usdAmountOut !== undefined) {
+      console.log(`  Skip USD Estimate: $${route.usdAmountIn.toFixed(2)} → $${route.usdAmountOut.toFixed(2)}`);
+    }
+    if (route.warning) {
+      console.log(`  ⚠️  ${route.warning.type}: ${route.warning.message}`);
+    }
+    for (const step of route.steps) {
+      const hop = step.fromChainId === step.toChainId
+        ? getChainDisplayName(step.fromChainId)
+        : `${getChainDisplayName(step.fromChainId)} → ${getChainDisplayName(step.toChainId)}`;
+      const via = step.action === 'swap' ? `on ${step.venues.join(', ') || 'unknown venue'}` : `via ${step.bridge || step.operation}`;
+      console.log(`\n  ${step.index + 1}. ${step.action === 'swap' ? 'Swap' : 'Transfer'} ${hop} ${via} (tx ${step.txIndex + 1})`);
+      console.log(`     ${this.formatRouteAmount(step.amountIn, step.denomIn, job)} → ${this.formatRouteAmount(step.amountOut, step.denomOut, job)}`);
+      if (step.priceImpactPercent !== undefined) {
+        console.log(`     Price Impact: ${step.priceImpactPercent.toFixed(2)}%`);
+      }
+      for (const fee of step.fees) {
+        console.log(`     Fee: ${(parseFloat(fee.amount) / Math.pow(10, fee.decimals)).toFixed(6)} ${fee.symbol} ($${fee.usd.toFixed(4)}, ${fee.type} ${fee.provider})`);
+      }
+    }
+
+    const routeLevelFees = route.fees.filter(fee => fee.operationIndex === undefined);
+    if (routeLevelFees.length > 0) {
+      console.log('\n  Other Fees:');
+      for (const fee of routeLevelFees) {
+        console.log(`     ${(parseFloat(fee.amount) / Math.pow(10, fee.decimals)).toFixed(6)} ${fee.symbol} ($${fee.usd.toFixed(4)}, ${fee.type} ${fee.provider} on ${getChainDisplayName(fee.chainId)})`);
+      }
+    }
+
+    console.log('\n  Required Addresses:');
+    for (const entry of route.requiredChainAddresses) {
+      console.log(`     ${getChainDisplayName(entry.chainId)}: ${entry.address || '(could not be derived)'}`);
+    }
+    if (quote.blockers.length > 0) {
+      console.log('\n  ⚠️  A swap would be cancelled:');
+      quote.blockers.forEach(blocker => console.log(`    - ${blocker}`));
+    } else {
+      console.log('\n  ✅ A swap would go ahead at this quote');
+    }
+
+    return quote;
+  }
+
+  // Source and destination amounts in whole units; intermediate denoms stay in base units
+  private formatRouteAmount(amount: string, denom: string, job: SwapConfig): string {
+    if (denom === job.sourceAsset) {
+      return `${(parseFloat(amount) / Math.pow(10, job.sourceDecimals)).toFixed(6)} ${job.sourceSymbol}`;
+    }
+    if (denom === job.destAsset) {
+      return `${(parseFloat(amount) / Math.pow(10, job.destDecimals)).toFixed(6)} ${job.destSymbol}`;
+    }
+    return `${amount} ${denom}`;
+  }
+
+  private formatDuration(seconds: number): string {
+    return seconds >= 120 ? `${Math.round(seconds / 60)} min` : `${seconds}s`;
+  }
+
+  async history(query: TransactionQuery, json: boolean): Promise<void> {
+    await this.orchestrator.ready();
+    const page = this.orchestrator.getHistory(query);
+
+    if (json) {
+      console.log(JSON.stringify(page, null, 2));
+      return;
+    }
+
+    console.log(`\nSwap History (${page.offset + 1}-${page.offset + page.transactions.length} of ${page.total})`);
+    console.log('============');
+    if (page.transactions.length === 0) {
+      console.log('  No matching swaps');
+    }
+    for (const tx of page.transactions) {
+      const job = swapJobs.find(candidate => candidate.name === (tx.jobName || 'default')) || swapConfig;
+      const sent = parseFloat(tx.fromAmount) / Math.pow(10, job.sourceDecimals);
+      const received = parseFloat(tx.toAmount) / Math.pow(10, job.destDecimals);
+      console.log(`  ${tx.timestamp.replace('T', ' ').slice(0, 19)}  ${tx.status.padEnd(9)}  [${tx.jobName || 'default'}]  ` +
+        `${sent.toFixed(6)} ${tx.fromToken} → ${received.toFixed(6)} ${tx.toToken}  ` +
+        `rate ${tx.effectiveRate.toFixed(6)}  $${tx.costBasisUSD.toFixed(2)}  ${tx.id}`);
+      if (tx.error) {
+        console.log(`      ${tx.error}`);
+      }
+    }
+  }
+
+  async exportHistory(format: string, options: ExportOptions): Promise<void> {
+    await this.orchestrator.initializeWallet();
+    const exportPath = await this.orchestrator.exportHistory(format, options);
+    logger.info(`Transaction history exported to: ${exportPath}`);
+
+    const status = await this.orchestrator.getStatus();
+    console.log('\nBot Statistics:');
+    console.log('================');
+    console.log(`Total Transactions: ${status.statistics.totalTransactions}`);
+    console.log(`Successful: ${status.statistics.successfulTransactions}`);
+    console.log(`Total Volume (USD): $${status.statistics.totalVolumeUSD.toFixed(2)}`);
+    console.log(`Average Rate: ${status.statistics.averageRate.toFixed(6)}`);
+
+    for (const job of status.jobs) {
+      console.log(`\n[${job.name}] ${job.pair}`);
+      console.log(`  Transactions: ${job.statistics.successfulTransactions}/${job.statistics.totalTransactions} successful`);
+      console.log(`  Volume (USD): $${job.statistics.totalVolumeUSD.toFixed(2)}`);
+      console.log(`  Average Rate: ${job.statistics.averageRate.toFixed(6)}`);
+    }
+  }
+
+  async addLot(asset: string, quantity: number, usdValue: number, source: LotSource, date: string): Promise<void> {
+    const lot = await this.orchestrator.recordAcquisition({
+      asset,
+      source,
+      acquiredAt: date,
+      quantity,
+      costBasisUSD: usdValue,
+    });
+    console.log(`✅ Recorded lot ${lot.id}: ${lot.quantity} ${lot.asset} for $${lot.costBasisUSD.toFixed(2)}`);
+  }
+
+  async importLots(filePath: string): Promise<void> {
+    const imported = await this.orchestrator.importLots(filePath);
+    console.log(`✅ Imported ${imported.length} lots from ${filePath}`);
+  }
+
+  // Generates a new mnemonic and stores it encrypted; the phrase is printed once for backup
+  async createKeystore(filePath: string, words: 12 | 24, passwordFile: string | undefined, force: boolean): Promise<void> {
+    const mnemonic = Bip39.encode(Random.getBytes(words === 24 ? 32 : 16)).toString();
+    const address = await this.writeNewKeystore(filePath, 'mnemonic', Buffer.from(mnemonic, 'utf-8'), passwordFile, force);
+
+    console.log('\nWrite down this recovery phrase and keep it offline. It is not shown again:\n');
+    console.log(`  ${mnemonic}\n`);
+    console.log(`Fund ${address} and set KEYSTORE_FILE=${filePath} to use it.`);
+  }
+
+  // Encrypts an existing mnemonic or private key, pasted at a prompt or taken from MNEMONIC/PRIVATE_KEY
+  async importKeystore(filePath: string, fromEnv: boolean, passwordFile: string | undefined, force: boolean): Promise<void> {
+    let parsed: { type: KeystoreSecretType; secret: Buffer };
+    if (fromEnv) {
+      if (!config.wallet.mnemonic && !config.wallet.privateKey) {
+        throw new KeystoreError('--from-env needs MNEMONIC or PRIVATE_KEY to be set');
+      }
+      parsed = parseSecret((config.wallet.mnemonic || config.wallet.privateKey)!);
+    } else {
+      parsed = parseSecret(await promptSecret('Mnemonic or hex private key: '));
+    }
+
+    await this.writeNewKeystore(filePath, parsed.type, parsed.secret, passwordFile, force);
+    console.log(`Set KEYSTORE_FILE=${filePath} and remove MNEMONIC and PRIVATE_KEY from your environment.`);
+  }
+
+  // Re-encrypts the keystore with a new passphrase, fresh salt and IV
+  async changeKeystorePassword(filePath: string, passwordFile: string | undefined): Promise<void> {
+    const keystore = await readKeystore(filePath);
+    const secret = await decryptKeystore(keystore, await getKeystorePassphrase('Current passphrase: '));
+
+    try {
+      const passphrase = await this.newPassphrase(passwordFile);
+      const updated = await encryptKeystore(secret, keystore.type, keystore.address, passphrase);
+      await writeKeystore(filePath, { ...updated, createdAt: keystore.createdAt }, true);
+    } finally {
+      secret.fill(0);
+    }
+    console.log(`✅ Passphrase changed for ${filePath} (${keystore.address})`);
+  }
+
+  private async writeNewKeystore(
+    filePath: string,
+    type: KeystoreSecretType,
+    secret: Buffer,
+    passwordFile: string | undefined,
+    force: boolean
+  ): Promise<string> {
+    try {
+      if (!force && fs.existsSync(filePath)) {
+        throw new KeystoreError(`${filePath} already exists; pass --force to replace it`);
+      }
+
+      const signingKey = await deriveSigningKey(type, secret);
+      const address = await addressForKey(signingKey);
+      signingKey.fill(0);
+
+      const passphrase = await this.newPassphrase(passwordFile);
+      await writeKeystore(filePath, await encryptKeystore(secret, type, address, passphrase), force);
+      console.log(`✅ Keystore written to ${filePath} (${address})`);
+      return address;
+    } finally {
+      secret.fill(0);
+    }
+  }
+
+  // From --password-file, or typed twice at the terminal
+  private async newPassphrase(passwordFile: string | undefined): Promise<string> {
+    const passphrase = passwordFile ? await readPassphraseFile(passwordFile) : await promptSecret('New passphrase: ');
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new KeystoreError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+    }
+    if (!passwordFile && await promptSecret('Repeat passphrase: ') !== passphrase) {
+      throw new KeystoreError('Passphrases do not match');
+    }
+    return passphrase;
+  }
+
+  // Builds a performance report for the period ending now and saves it under data/reports
+  async report(period: ReportPeriod, format: ReportFormat, send: boolean, json: boolean): Promise<void> {
+    await this.orchestrator.initializeWallet();
+    const { report, filePath } = await this.orchestrator.publishReport(period, { format, send });
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    console.log(`\n${renderReportMarkdown(report)}`);
+    console.log(`Saved to ${filePath}${send ? ' and sent to notification channels' : ''}`);
+  }
+
+  async lotReport(): Promise<void> {
+    const report = await this.orchestrator.getTaxLotReport();
+
+    console.log(`\nOpen Tax Lots (${report.method.toUpperCase()})`);
+    console.log('==============');
+    if (report.openLots.length === 0) {
+      console.log('  No open lots');
+    }
+    for (const lot of report.openLots) {
+      const unitCost = lot.costBasisUSD / lot.quantity;
+      const ageDays = Math.floor((Date.now() - new Date(lot.acquiredAt).getTime()) / (24 * 60 * 60 * 1000));
+      console.log(`  ${lot.acquiredAt.split('T')[0]}  ${lot.remaining.toFixed(6)}/${lot.quantity.toFixed(6)} ${lot.asset}  ` +
+        `@ $${unitCost.toFixed(6)}  basis $${(lot.remaining * unitCost).toFixed(2)}  ${ageDays}d  ${lot.source}`);
+    }
+
+    console.log('\nRealized Gains by Year');
+    console.log('======================');
+    if (report.yearlyGains.length === 0) {
+      console.log('  No realized gains yet');
+    }
+    for (const year of report.yearlyGains) {
+      console.log(`  ${year.year}: ${year.swaps} swaps`);
+      console.log(`    Proceeds: $${year.proceedsUSD.toFixed(2)}`);
+      console.log(`    Cost Basis: $${year.costBasisUSD.toFixed(2)}`);
+      console.log(`    Short-term: $${year.shortTermGainUSD.toFixed(2)}`);
+      console.log(`    Long-term: $${year.longTermGainUSD.toFixed(2)}`);
+      console.log(`    Total: $${year.totalGainUSD.toFixed(2)}`);
+    }
+  }
+
+  async importHistory(filePath: string): Promise<void> {
+    const source = path.resolve(process.cwd(), filePath);
+    const { imported, skipped } = await this.orchestrator.importHistory(source);
+    console.log(`✅ Imported ${imported} transactions from ${source} (${skipped} already present)`);
+  }
+
+  async getStatus(json: boolean): Promise<void> {
+    await this.orchestrator.initializeWallet();
+    const status = await this.orchestrator.getStatus();
+
+    if (json) {
+      console.log(JSON.stringify(status, null, 2));
+      return;
+    }
+
+    console.log('\nKYVE Swapper Bot Status');
+    console.log('======================');
+    console.log('\nWallet Addresses:');
+    console.log(`  KYVE: ${status.walletAddresses.kyve}`);
+    console.log(`  Ethereum L1: ${status.walletAddresses.ethereum}`);
+    console.log(`  Base L2: ${status.walletAddresses.base}`);
+    console.log('\nBalances:');
+    console.log(`  KYVE: ${status.balances.kyve}`);
+    for (const [chain, amount] of Object.entries(status.balances.usdc)) {
+      console.log(`  USDC (${chain}): ${amount}`);
+    }
+    if (status.inFlightSwaps.length > 0) {
+      console.log(`\nIn-flight (timed out) swaps: ${status.inFlightSwaps.join(', ')}`);
+    }
+    console.log('\nStatistics:');
+    console.log(`  Total Transactions: ${status.statistics.totalTransactions}`);
+    console.log(`  Successful: ${status.statistics.successfulTransactions}`);
+    console.log(`  Total Volume (USD): $${status.statistics.totalVolumeUSD.toFixed(2)}`);
+    console.log(`  Average Rate: ${status.statistics.averageRate.toFixed(6)}`);
+    console.log('\nStaking Rewards:');
+    console.log(`  Auto-claim: ${status.rewardClaims.autoClaim}${status.rewardClaims.claimCommission ? ' (incl. commission)' : ''}`);
+    console.log(`  Claims: ${status.rewardClaims.totalClaims}`);
+    console.log(`  Total Claimed: ${status.rewardClaims.totalClaimedKyve.toFixed(6)} KYVE ($${status.rewardClaims.totalClaimedUSD.toFixed(2)})`);
+    console.log('\nConfiguration:');
+    console.log(`  Min Swap Amount: $${status.config.minSwapAmountUSD}`);
+    console.log(`  Max Swap Amount: $${status.config.maxSwapAmountUSD}`);
+    console.log(`  Max Slippage: ${status.config.maxSlippage * 100}%`);
+    console.log(`  Schedule: ${status.config.schedule}`);
+    console.log(`  Timeout: ${status.config.timeoutMinutes} minutes`);
+    console.log(`  Dry Run: ${status.config.dryRun}`);
+    console.log(`  USDC Destination: ${status.config.destination}`);
+    console.log(`  Destination Address: ${status.config.destinationAddress}`);
+    console.log('\nSwap Jobs:');
+    for (const job of status.jobs) {
+      console.log(`  ${job.name}: ${job.pair}`);
+      if (job.trigger) {
+        const trigger = job.trigger;
+        const rule = trigger.trailingStopPercent > 0
+          ? `trailing stop ${trigger.trailingStopPercent}%${trigger.targetPriceUSD > 0 ? ` armed at $${trigger.targetPriceUSD}` : ''}`
+          : `take profit at $${trigger.targetPriceUSD}`;
+        console.log(`    Trigger: ${rule}, ${trigger.cooldownMinutes} min cooldown`);
+        if (trigger.armed) {
+          console.log(`    Trailing Stop: armed, peak $${trigger.peakPriceUSD!.toFixed(4)}, fires at $${trigger.stopPriceUSD!.toFixed(4)}`);
+        }
+        if (trigger.lastPriceUSD !== undefined) {
+          console.log(`    Last Price: $${trigger.lastPriceUSD.toFixed(4)} (${trigger.lastCheckedAt})`);
+        }
+        if (trigger.cooldownUntil && new Date(trigger.cooldownUntil) > new Date()) {
+          console.log(`    Cooling Down Until: ${trigger.cooldownUntil}`);
+        }
+        console.log(`    Trigger Fills: ${trigger.fills}${trigger.lastFiredAt ? ` (last fired ${trigger.lastFiredAt})` : ''}`);
+      } else {
+        console.log(`    Schedule: ${job.schedule}`);
+      }
+      console.log(`    Execution: ${job.executionMode}`);
+      console.log(`    Swap Amount: $${job.minSwapAmountUSD} - $${job.maxSwapAmountUSD}`);
+      if (job.autoDestinations) {
+        console.log(`    Destination: auto (${job.autoDestinations.join(', ')})`);
+      } else {
+        console.log(`    Destination Address: ${job.destinationAddress || '(derived from wallet)'}`);
+      }
+      console.log(`    Transactions: ${job.statistics.successfulTransactions}/${job.statistics.totalTransactions} successful`);
+      console.log(`    Volume (USD): $${job.statistics.totalVolumeUSD.toFixed(2)}`);
+      console.log(`    Average Rate: ${job.statistics.averageRate.toFixed(6)}`);
+    }
+  }
+
+  // Checks the loaded configuration beyond its schema; returns the problems found
+  validateConfig(): string[] {
+    const problems: string[] = [];
+
+    for (const job of swapJobs) {
+      const label = `Job "${job.name}"`;
+      if (job.triggerMode === 'cron' && !cron.validate(job.schedule)) {
+        problems.push(`${label}: invalid cron schedule "${job.schedule}"`);
+      }
+      if (job.minSwapAmountUSD > job.maxSwapAmountUSD) {
+        problems.push(`${label}: minimum swap amount $${job.minSwapAmountUSD} is above the maximum $${job.maxSwapAmountUSD}`);
+      }
+      if (job.destAsset.startsWith('0x') && !/^0x[a-fA-F0-9]{40}$/.test(job.destAddress || '')) {
+        problems.push(`${label}: EVM destination ${getChainDisplayName(job.destChainId)} needs a destination address`);
+      }
+      if (job.executionMode === 'twap' && job.twapSlices > 1 && job.twapWindowMinutes === 0) {
+        problems.push(`${label}: TWAP with ${job.twapSlices} slices needs a TWAP window above 0 minutes`);
+      }
+    }
+
+    const conflicting = config.routePolicy.allowedBridges.filter(bridge => config.routePolicy.deniedBridges.includes(bridge));
+    if (conflicting.length > 0) {
+      problems.push(`Bridge ${conflicting.join(', ')} is both allowed and denied by the route policy`);
+    }
+
+    const unknownTemplates = unknownTemplateNames(config.notification.templates);
+    if (unknownTemplates.length > 0) {
+      problems.push(`Unknown notification template(s) ${unknownTemplates.join(', ')} (expected ${NOTIFICATION_EVENTS.join(', ')})`);
+    }
+
+    if (config.reports.period !== 'off' && !cron.validate(config.reports.schedule)) {
+      problems.push(`Invalid report schedule "${config.reports.schedule}"`);
+    }
+
+    if (config.wallet.keystoreFile && !fs.existsSync(config.wallet.keystoreFile)) {
+      problems.push(`Keystore ${config.wallet.keystoreFile} does not exist`);
+    }
+
+    if (config.api.enabled && config.metrics.enabled && config.api.port === config.metrics.port && config.api.host === config.metrics.host) {
+      problems.push(`Control API and metrics both use ${config.api.host}:${config.api.port}`);
+    }
+
+    console.log('\nConfiguration');
+    console.log('=============');
+    console.log(`  Wallet: ${config.signer.type === 'remote'
+      ? `remote signer ${config.signer.remoteUrl}`
+      : config.wallet.keystoreFile
+        ? `keystore ${config.wallet.keystoreFile}`
+        : `${config.wallet.mnemonic ? 'MNEMONIC' : 'PRIVATE_KEY'} (plaintext, consider \`keystore import --from-env\`)`}`);
+    console.log(`  Storage: ${config.storage.backend}${config.storage.backend === 'sqlite' ? ` (${config.storage.sqlitePath})` : ''}`);
+    console.log(`  Price Sources: ${config.price.sources.join(', ')}`);
+    console.log(`  Control API: ${config.api.enabled ? `${config.api.host}:${config.api.port}` : 'disabled'}`);
+    console.log(`  Telegram Commands: ${config.telegramCommands.enabled
+      ? `chats ${config.telegramCommands.allowedChatIds.join(', ')}, users ${config.telegramCommands.allowedUserIds.join(', ') || 'any'}`
+      : 'disabled'}`);
+    console.log(`  Route Policy: ${new RoutePolicy().describe()}`);
+    console.log(`  Reports: ${config.reports.period === 'off' ? 'off' : `${config.reports.period} (${config.reports.schedule}, ${config.reports.format})`}`);
+    console.log(`  Metrics: ${config.metrics.enabled ? `${config.metrics.host}:${config.metrics.port}` : 'disabled'}`);
+    console.log('\nSwap Jobs:');
+    for (const job of swapJobs) {
+      console.log(`  ${job.name}: ${job.sourceSymbol} (${job.sourceChainId}) → ${job.destSymbol} (${getChainDisplayName(job.destChainId)})`);
+      const trigger = job.triggerMode === 'price'
+        ? `Price Trigger: $${job.triggerPriceUSD}${job.trailingStopPercent > 0 ? ` trailing ${job.trailingStopPercent}%` : ''}`
+        : `Schedule: ${job.schedule}`;
+      console.log(`    ${trigger}  Amount: $${job.minSwapAmountUSD} - $${job.maxSwapAmountUSD}  Dry Run: ${job.dryRun}`);
+    }
+
+    if (problems.length === 0) {
+      console.log('\n✅ Configuration is valid');
+    } else {
+      console.log(`\n❌ ${problems.length} problem(s) found:`);
+      problems.forEach(problem => console.log(`  - ${problem}`));
+    }
+
+    return problems;
+  }
+}
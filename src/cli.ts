@@ -0,0 +1,366 @@
+import path from 'path';
+import { ZodError } from 'zod';
+import { KyveSwapperBot } from './bot';
+import { AUTO_DESTINATION, config, destinationNames, getSwapJob, overrideSwapJob, swapJobs } from './config';
+import { parseExportFlags } from './services/exporters';
+import { TransactionQuery } from './services/transactionStore';
+import { LotSource, ReportPeriod, SwapConfig, SwapTransaction } from './types';
+import { checkFlags, parseDateFlag, parseFlags, parseNumberFlag, UsageError } from './utils/args';
+import { logger, silenceConsoleLogs } from './utils/logger';
+
+// Process exit codes; documented in the README
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1; // Runtime error, or a swap that failed or got stuck
+export const EXIT_USAGE = 2; // Bad arguments or invalid configuration
+export const EXIT_NO_SWAP = 3; // Swap conditions not met, nothing was executed
+
+const STATUSES: SwapTransaction['status'][] = ['pending', 'timed_out', 'completed', 'failed', 'stuck'];
+const REPORT_PERIODS: ReportPeriod[] = ['daily', 'weekly', 'monthly'];
+const KEYSTORE_SUBCOMMANDS = ['create', 'import', 'change-password'];
+const SWAP_FLAGS = ['job', 'amount', 'dest', 'dry-run', 'slippage', 'min-usd', 'max-usd', 'min-rate', 'max-deviation', 'timeout'];
+
+interface Command {
+  name: string;
+  usage: string;
+  description: string;
+  flags: string[];
+  run(bot: KyveSwapperBot, positional: string[], flags: Record<string, string>): Promise<number>;
+}
+
+const swapCommand: Command = {
+  name: 'swap',
+  usage: 'swap [--job <name>] [--amount <units>] [--dest <destination>] [--dry-run] [overrides]',
+  description: 'Run a swap now, once per job (or only --job). --amount is in whole source units of one job (KYVE for the default job) ' +
+    'and skips automatic sizing; it needs --job when several jobs are configured',
+  flags: SWAP_FLAGS,
+  run: async (bot, positional, flags) => {
+    const jobs = resolveSwapJobs(flags.job || positional[0], flags);
+    const amount = parseAmount(flags);
+    // Each job reads the amount in its own source units, so it can only apply to one
+    if (amount !== undefined && jobs.length !== 1) {
+      throw new UsageError(`--amount applies to a single job; pick one with --job (configured: ${jobs.map(job => job.name).join(', ')})`);
+    }
+    const results = await bot.swap(jobs, amount);
+    return swapExitCode(results);
+  },
+};
+
+const COMMANDS: Command[] = [
+  {
+    name: 'run',
+    usage: 'run',
+    description: 'Start the scheduler and run swaps on each job\'s cron schedule (default)',
+    flags: [],
+    run: async bot => {
+      await bot.start();
+      // Keeps running until SIGINT/SIGTERM; the shutdown handler exits the process
+      return new Promise<number>(() => {});
+    },
+  },
+  swapCommand,
+  { ...swapCommand, name: 'once', usage: 'once [job] [options]', description: 'Alias of `swap`' },
+  {
+    name: 'quote',
+    usage: 'quote [--job <name>] [--amount <units>] [--dest <destination>] [overrides] [--json]',
+    description: 'Preview the Skip route for a swap (every step, venue, bridge, fee and address) without signing anything',
+    flags: [...SWAP_FLAGS, 'json'],
+    run: async (bot, positional, flags) => {
+      const [job] = resolveSwapJobs(flags.job || positional[0] || swapJobs[0].name, flags);
+      const quote = await bot.quote(job, parseAmount(flags), flags.json === 'true');
+      return quote.blockers.length > 0 ? EXIT_NO_SWAP : EXIT_OK;
+    },
+  },
+  {
+    name: 'status',
+    usage: 'status [--json]',
+    description: 'Show wallet addresses, balances, statistics and configuration',
+    flags: ['json'],
+    run: async (bot, _positional, flags) => {
+      await bot.getStatus(flags.json === 'true');
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'history',
+    usage: 'history [--from <date>] [--to <date>] [--status <s1,s2>] [--job <name>] [--chain <id>] [--limit <n>] [--offset <n>] [--slices] [--json]',
+    description: 'List recorded swaps, newest first',
+    flags: ['from', 'to', 'status', 'job', 'chain', 'limit', 'offset', 'slices', 'json'],
+    run: async (bot, _positional, flags) => {
+      await bot.history(parseHistoryQuery(flags), flags.json === 'true');
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'export',
+    usage: 'export [--format <name>] [--from <date>] [--to <date>] [--currency <code>]',
+    description: 'Export swap history for tax or accounting tools',
+    flags: ['format', 'from', 'to', 'currency'],
+    run: async (bot, _positional, flags) => {
+      const { format, options } = parseExportFlags(flags);
+      await bot.exportHistory(format, options);
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'report',
+    usage: 'report [--period daily|weekly|monthly] [--format markdown|html] [--send] [--json]',
+    description: 'Build a performance report for the period ending now, save it under data/reports and optionally --send it',
+    flags: ['period', 'format', 'send', 'json'],
+    run: async (bot, _positional, flags) => {
+      const period = flags.period || (config.reports.period !== 'off' ? config.reports.period : 'daily');
+      if (!REPORT_PERIODS.includes(period as ReportPeriod)) {
+        throw new UsageError(`--period must be one of ${REPORT_PERIODS.join(', ')}`);
+      }
+      const format = flags.format || config.reports.format;
+      if (format !== 'markdown' && format !== 'html') {
+        throw new UsageError('--format must be markdown or html');
+      }
+      await bot.report(period as ReportPeriod, format, flags.send === 'true', flags.json === 'true');
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'lots',
+    usage: 'lots [add <asset> <quantity> <usdValue> [source] [date] | import <file.csv>]',
+    description: 'Show open tax lots and realized gains, or record acquisitions',
+    flags: [],
+    run: async (bot, positional) => {
+      const [subcommand, ...rest] = positional;
+
+      if (subcommand === 'add') {
+        const [asset, quantity, usdValue, source = 'manual_import', date = new Date().toISOString()] = rest;
+        if (!asset || !(parseFloat(quantity) > 0) || !(parseFloat(usdValue) >= 0)) {
+          throw new UsageError('lots add needs an asset, a positive quantity and a USD value');
+        }
+        await bot.addLot(asset, parseFloat(quantity), parseFloat(usdValue), source as LotSource, date);
+      } else if (subcommand === 'import') {
+        if (!rest[0]) {
+          throw new UsageError('lots import needs a CSV file');
+        }
+        await bot.importLots(rest[0]);
+      } else if (subcommand) {
+        throw new UsageError(`Unknown lots subcommand "${subcommand}"`);
+      } else {
+        await bot.lotReport();
+      }
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'import-history',
+    usage: 'import-history <transactions.json>',
+    description: 'Import a transactions.json file into the transaction store',
+    flags: [],
+    run: async (bot, positional) => {
+      if (!positional[0]) {
+        throw new UsageError('import-history needs a file');
+      }
+      await bot.importHistory(positional[0]);
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'keystore',
+    usage: 'keystore create|import|change-password [--file <path>] [--password-file <path>] [--words 12|24] [--from-env] [--force]',
+    description: 'Manage the encrypted wallet keystore (KEYSTORE_FILE, or --file). Passphrases are prompted for unless --password-file is given',
+    flags: ['file', 'password-file', 'words', 'from-env', 'force'],
+    run: async (bot, positional, flags) => {
+      const [subcommand] = positional;
+      if (!KEYSTORE_SUBCOMMANDS.includes(subcommand)) {
+        throw new UsageError(subcommand ? `Unknown keystore subcommand "${subcommand}"` : 'keystore needs a subcommand');
+      }
+
+      const file = flags.file || config.wallet.keystoreFile;
+      if (!file) {
+        throw new UsageError('Set KEYSTORE_FILE or pass --file');
+      }
+      const filePath = path.resolve(process.cwd(), file);
+      const passwordFile = flags['password-file'] ? path.resolve(process.cwd(), flags['password-file']) : undefined;
+      const force = flags.force === 'true';
+
+      if (subcommand === 'create') {
+        const words = parseNumberFlag(flags, 'words') ?? 24;
+        if (words !== 12 && words !== 24) {
+          throw new UsageError('--words must be 12 or 24');
+        }
+        await bot.createKeystore(filePath, words, passwordFile, force);
+      } else if (subcommand === 'import') {
+        await bot.importKeystore(filePath, flags['from-env'] === 'true', passwordFile, force);
+      } else {
+        await bot.changeKeystorePassword(filePath, passwordFile);
+      }
+      return EXIT_OK;
+    },
+  },
+  {
+    name: 'config',
+    usage: 'config validate',
+    description: 'Check the configuration without connecting to any chain',
+    flags: [],
+    run: async (bot, positional) => {
+      if (positional[0] !== 'validate') {
+        throw new UsageError(positional[0] ? `Unknown config subcommand "${positional[0]}"` : 'config needs a subcommand');
+      }
+      return bot.validateConfig().length > 0 ? EXIT_USAGE : EXIT_OK;
+    },
+  },
+];
+
+function printHelp(): void {
+  console.log('Usage: npm start -- <command> [options]\n');
+  console.log('Commands:');
+  for (const command of COMMANDS) {
+    console.log(`  ${command.usage}`);
+    console.log(`      ${command.description}`);
+  }
+  console.log('\nSwap overrides (swap, once, quote) apply to this invocation only:');
+  console.log(`  --dest <${[...destinationNames, AUTO_DESTINATION].join('|')}>  Destination chain for USDC`);
+  console.log('  --dry-run                 Quote and log, but do not execute (--dry-run=false to force a live swap)');
+  console.log('  --slippage <percent>      Maximum slippage, e.g. 1 for 1%');
+  console.log('  --min-usd <usd>           Minimum swap value');
+  console.log('  --max-usd <usd>           Maximum swap value');
+  console.log('  --min-rate <rate>         Minimum destination units per source unit');
+  console.log('  --max-deviation <percent> Maximum route-vs-oracle deviation (0 disables)');
+  console.log('  --timeout <minutes>       Swap timeout');
+  console.log('\nExit codes: 0 ok, 1 failure, 2 usage or configuration error, 3 no swap executed');
+}
+
+function resolveSwapJobs(jobName: string | undefined, flags: Record<string, string>): SwapConfig[] {
+  let jobs = swapJobs;
+  if (jobName) {
+    const job = getSwapJob(jobName);
+    if (!job) {
+      throw new UsageError(`Unknown swap job "${jobName}" (configured: ${swapJobs.map(j => j.name).join(', ')})`);
+    }
+    jobs = [job];
+  }
+
+  const destinations = [...destinationNames, AUTO_DESTINATION];
+  if (flags.dest !== undefined && !destinations.includes(flags.dest.toLowerCase())) {
+    throw new UsageError(`--dest must be one of ${destinations.join(', ')}`);
+  }
+
+  const overrides: Partial<SwapConfig> & { destination?: string } = {};
+  const slippage = parseNumberFlag(flags, 'slippage');
+  const minUsd = parseNumberFlag(flags, 'min-usd');
+  const maxUsd = parseNumberFlag(flags, 'max-usd');
+  const minRate = parseNumberFlag(flags, 'min-rate');
+  const maxDeviation = parseNumberFlag(flags, 'max-deviation');
+  const timeout = parseNumberFlag(flags, 'timeout');
+
+  if (slippage !== undefined && !(slippage > 0 && slippage < 100)) {
+    throw new UsageError('--slippage must be a percentage between 0 and 100');
+  }
+
+  if (flags.dest) overrides.destination = flags.dest;
+  if (flags['dry-run'] !== undefined) overrides.dryRun = flags['dry-run'] !== 'false';
+  if (slippage !== undefined) overrides.maxSlippage = slippage / 100;
+  if (minUsd !== undefined) overrides.minSwapAmountUSD = minUsd;
+  if (maxUsd !== undefined) overrides.maxSwapAmountUSD = maxUsd;
+  if (minRate !== undefined) overrides.minEffectiveRate = minRate;
+  if (maxDeviation !== undefined) overrides.maxPriceDeviationPercent = maxDeviation;
+  if (timeout !== undefined) overrides.timeoutMinutes = timeout;
+
+  return jobs.map(job => {
+    const overridden = overrideSwapJob(job, overrides);
+    if (overridden.minSwapAmountUSD > overridden.maxSwapAmountUSD) {
+      throw new UsageError(`Minimum swap amount $${overridden.minSwapAmountUSD} is above the maximum $${overridden.maxSwapAmountUSD}`);
+    }
+    return overridden;
+  });
+}
+
+function parseAmount(flags: Record<string, string>): number | undefined {
+  const amount = parseNumberFlag(flags, 'amount');
+  if (amount !== undefined && !(amount > 0)) {
+    throw new UsageError('--amount must be greater than 0');
+  }
+  return amount;
+}
+
+function swapExitCode(results: SwapTransaction[]): number {
+  if (results.length === 0) {
+    return EXIT_NO_SWAP;
+  }
+  return results.some(result => result.status === 'failed' || result.status === 'stuck') ? EXIT_FAILURE : EXIT_OK;
+}
+
+function parseHistoryQuery(flags: Record<string, string>): TransactionQuery {
+  const limit = parseNumberFlag(flags, 'limit') ?? 50;
+  const offset = parseNumberFlag(flags, 'offset') ?? 0;
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new UsageError('--limit must be a positive integer');
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new UsageError('--offset must not be negative');
+  }
+
+  const status = flags.status?.split(',').map(value => value.trim()) as SwapTransaction['status'][] | undefined;
+  const unknown = status?.filter(value => !STATUSES.includes(value));
+  if (unknown && unknown.length > 0) {
+    throw new UsageError(`Unknown status ${unknown.join(', ')} (expected ${STATUSES.join(', ')})`);
+  }
+
+  const query: TransactionQuery = {
+    jobName: flags.job,
+    status,
+    chainId: flags.chain,
+    from: flags.from ? parseDateFlag(flags.from, false) : undefined,
+    to: flags.to ? parseDateFlag(flags.to, true) : undefined,
+    topLevelOnly: flags.slices !== 'true',
+    order: 'desc',
+    limit,
+    offset,
+  };
+  if (query.from && query.to && query.from > query.to) {
+    throw new UsageError('--from must not be after --to');
+  }
+  return query;
+}
+
+/**
+ * Parses `args` (process.argv without node and the script), runs the command
+ * and resolves to the process exit code. Only `run` keeps the process alive.
+ */
+export async function runCli(args: string[]): Promise<number> {
+  const [name = 'run', ...rest] = args;
+
+  if (name === 'help' || name === '--help' || name === '-h') {
+    printHelp();
+    return EXIT_OK;
+  }
+
+  const command = COMMANDS.find(candidate => candidate.name === name);
+  if (!command) {
+    console.error(`Unknown command "${name}"\n`);
+    printHelp();
+    return EXIT_USAGE;
+  }
+
+  try {
+    const { flags, positional } = parseFlags(rest);
+    if (flags.help === 'true') {
+      console.log(`Usage: npm start -- ${command.usage}\n\n${command.description}`);
+      return EXIT_OK;
+    }
+
+    if (flags.json === 'true' && command.flags.includes('json')) {
+      silenceConsoleLogs();
+    }
+
+    checkFlags(flags, command.flags);
+    return await command.run(new KyveSwapperBot(), positional, flags);
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}\n\nUsage: npm start -- ${command.usage}`);
+      return EXIT_USAGE;
+    }
+    if (error instanceof ZodError) {
+      console.error('Invalid options:');
+      error.issues.forEach(issue => console.error(`  ${issue.path.join('.')}: ${issue.message}`));
+      return EXIT_USAGE;
+    }
+    logger.error(`Command "${name}" failed: ${error.message || error}`);
+    return EXIT_FAILURE;
+  }
+}
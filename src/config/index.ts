@@ -1,16 +1,50 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
 import { z } from 'zod';
-import { SwapConfig, WalletConfig, NotificationConfig } from '../types';
+import {
+  SwapConfig,
+  WalletConfig,
+  NotificationConfig,
+  NotificationChannel,
+  NotificationChannelPolicy,
+  NotificationLevel,
+  EvmChainConfig,
+} from '../types';
 
 dotenv.config();
 
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['discord', 'telegram', 'slack', 'webhook', 'email', 'ntfy'];
+
+const NotificationChannelPolicySchema = z.object({
+  minLevel: z.enum(['info', 'warning', 'error']),
+  maxPerHour: z.number().int().nonnegative(),
+  quietHours: z.string()
+    .regex(/^([01]?\d|2[0-3]):[0-5]\d-([01]?\d|2[0-3]):[0-5]\d$/, 'Quiet hours must look like 22:00-07:00')
+    .optional(),
+});
+
 const ConfigSchema = z.object({
   skipApiKey: z.string().optional(),
+  skipApiUrl: z.string().url().optional(),
   wallet: z.object({
     mnemonic: z.string().optional(),
     privateKey: z.string().optional(),
-  }).refine(data => data.mnemonic || data.privateKey, {
-    message: "Either mnemonic or privateKey must be provided"
+    keystoreFile: z.string().optional(),
+    keystorePassword: z.string().optional(),
+    keystorePasswordFile: z.string().optional(),
+  }).refine(data => !data.keystoreFile || (!data.mnemonic && !data.privateKey), {
+    message: "KEYSTORE_FILE replaces MNEMONIC/PRIVATE_KEY; remove them from the environment"
+  }),
+  signer: z.object({
+    type: z.enum(['local', 'remote']),
+    remoteUrl: z.string()
+      .regex(/^(https?:\/\/|unix:\/)/, 'REMOTE_SIGNER_URL must be an http(s):// URL or unix:/path/to/socket')
+      .optional(),
+    remoteToken: z.string().optional(),
+    timeoutSeconds: z.number().positive(),
+  }).refine(data => data.type !== 'remote' || data.remoteUrl, {
+    message: "REMOTE_SIGNER_URL is required when SIGNER_TYPE=remote"
   }),
   kyve: z.object({
     rpcUrl: z.string().url(),
@@ -35,29 +69,160 @@ const ConfigSchema = z.object({
     minEffectiveRate: z.number(),
     schedule: z.string(),
     dryRun: z.boolean(),
-    usdcDestination: z.enum(['ethereum', 'base']).default('base'),
+    usdcDestination: z.enum(['ethereum', 'base', 'auto']).default('base'),
+    autoDestinations: z.array(z.string()).min(1),
     timeoutMinutes: z.number().positive().default(10),
+    executionMode: z.enum(['single', 'twap']).default('single'),
+    twapSlices: z.number().int().min(1).default(4),
+    twapWindowMinutes: z.number().nonnegative().default(60),
+    maxPriceDeviationPercent: z.number().nonnegative().default(5),
+    triggerMode: z.enum(['cron', 'price']).default('cron'),
+    triggerPriceUSD: z.number().nonnegative().default(0),
+    trailingStopPercent: z.number().min(0).max(100).default(0),
+    triggerCooldownMinutes: z.number().nonnegative().default(60),
+    triggerPollSeconds: z.number().int().min(5).default(60),
+  }),
+  jobsFile: z.string().optional(),
+  routePolicy: z.object({
+    allowUnsafe: z.boolean(),
+    allowedBridges: z.array(z.string()),
+    deniedBridges: z.array(z.string()),
+    allowedVenues: z.array(z.string()),
+    maxOperations: z.number().int().nonnegative(),
+    maxTxs: z.number().int().nonnegative(),
+    maxDurationMinutes: z.number().nonnegative(),
+    maxFeePercent: z.number().nonnegative(),
+    blockWarnings: z.array(z.enum(['BAD_PRICE_WARNING', 'LOW_INFO_WARNING'])),
+  }),
+  rewards: z.object({
+    autoClaim: z.boolean(),
+    claimCommission: z.boolean(),
+    minClaimAmount: z.number().nonnegative(),
+    gasPrice: z.string(),
+  }),
+  taxLots: z.object({
+    method: z.enum(['fifo', 'lifo', 'hifo']),
+  }),
+  export: z.object({
+    currency: z.string().regex(/^[A-Z]{3}$/, 'Reporting currency must be a 3-letter ISO code'),
+    fxApiUrl: z.string().url(),
+  }),
+  storage: z.object({
+    backend: z.enum(['sqlite', 'json']),
+    sqlitePath: z.string(),
+  }),
+  api: z.object({
+    enabled: z.boolean(),
+    host: z.string(),
+    port: z.number().int().min(1).max(65535),
+    token: z.string().optional(),
+  }).refine(data => !data.enabled || (data.token && data.token.length >= 16), {
+    message: "API_TOKEN of at least 16 characters is required when API_ENABLED=true"
+  }),
+  metrics: z.object({
+    enabled: z.boolean(),
+    host: z.string(),
+    port: z.number().int().min(1).max(65535),
+  }),
+  reports: z.object({
+    period: z.enum(['off', 'daily', 'weekly', 'monthly']),
+    schedule: z.string(),
+    format: z.enum(['markdown', 'html']),
   }),
   price: z.object({
     cacheDuration: z.number(),
+    sources: z.array(z.enum(['coingecko', 'coinpaprika', 'osmosis'])).min(1),
+    coingeckoApiKey: z.string().optional(),
+    maxAgeSeconds: z.number().positive(),
+    outlierPercent: z.number().positive(),
+    maxDisagreementPercent: z.number().positive(),
+    minSources: z.number().int().min(1),
+    osmosisLcdUrl: z.string().url(),
+    osmosisPools: z.record(z.object({
+      poolId: z.string(),
+      baseDenom: z.string(),
+      quoteDenom: z.string(),
+      baseDecimals: z.number().int().optional(),
+      quoteDecimals: z.number().int().optional(),
+    })),
   }),
   notification: z.object({
     discordWebhook: z.string().url().optional(),
     telegramBotToken: z.string().optional(),
     telegramChatId: z.string().optional(),
+    telegramApiUrl: z.string().url(),
+    slackWebhook: z.string().url().optional(),
+    webhookUrl: z.string().url().optional(),
+    webhookSecret: z.string().optional(),
+    email: z.object({
+      host: z.string(),
+      port: z.number().int().positive(),
+      secure: z.boolean(),
+      user: z.string().optional(),
+      password: z.string().optional(),
+      from: z.string().min(1, 'EMAIL_FROM is required with SMTP_HOST'),
+      to: z.array(z.string()).min(1, 'EMAIL_TO is required with SMTP_HOST'),
+    }).optional(),
+    ntfy: z.object({
+      url: z.string().url(),
+      topic: z.string().min(1),
+      token: z.string().optional(),
+    }).optional(),
+    channels: z.object(Object.fromEntries(
+      NOTIFICATION_CHANNELS.map(channel => [channel, NotificationChannelPolicySchema])
+    ) as Record<NotificationChannel, typeof NotificationChannelPolicySchema>),
+    dedupWindowMinutes: z.number().nonnegative(),
+    templates: z.record(z.string()),
+  }),
+  telegramCommands: z.object({
+    enabled: z.boolean(),
+    allowedChatIds: z.array(z.string()),
+    allowedUserIds: z.array(z.string()),
+    pollTimeoutSeconds: z.number().int().min(1).max(50),
+    confirmSeconds: z.number().positive(),
   }),
   logging: z.object({
     level: z.enum(['error', 'warn', 'info', 'debug']),
     toFile: z.boolean(),
   }),
+}).refine(data => data.signer.type === 'remote' || data.wallet.mnemonic || data.wallet.privateKey || data.wallet.keystoreFile, {
+  message: "Either mnemonic, privateKey or keystoreFile must be provided",
+  path: ['wallet'],
+}).refine(data => data.signer.type !== 'remote' || (!data.wallet.mnemonic && !data.wallet.privateKey && !data.wallet.keystoreFile), {
+  message: "SIGNER_TYPE=remote keeps keys out of the bot; remove MNEMONIC, PRIVATE_KEY and KEYSTORE_FILE",
+  path: ['signer'],
+}).refine(data => !data.telegramCommands.enabled || (data.notification.telegramBotToken && data.telegramCommands.allowedChatIds.length > 0), {
+  message: "TELEGRAM_BOT_TOKEN and TELEGRAM_ALLOWED_CHAT_IDS (or TELEGRAM_CHAT_ID) are required when TELEGRAM_COMMANDS_ENABLED=true",
+  path: ['telegramCommands'],
 });
 
+// Comma-separated env value as a trimmed list; empty when unset
+function parseList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
 function loadConfig() {
+  const blockWarnings = parseList(process.env.ROUTE_BLOCK_WARNINGS).map(warning => warning.toUpperCase());
+  const reportPeriod = (process.env.REPORT_PERIOD || 'off').toLowerCase();
+
   const config = {
     skipApiKey: process.env.SKIP_API_KEY || '',
+    skipApiUrl: process.env.SKIP_API_URL || undefined,
     wallet: {
-      mnemonic: process.env.MNEMONIC,
-      privateKey: process.env.PRIVATE_KEY,
+      mnemonic: process.env.MNEMONIC || undefined,
+      privateKey: process.env.PRIVATE_KEY || undefined,
+      keystoreFile: process.env.KEYSTORE_FILE ? path.resolve(process.cwd(), process.env.KEYSTORE_FILE) : undefined,
+      keystorePassword: process.env.KEYSTORE_PASSWORD || undefined,
+      keystorePasswordFile: process.env.KEYSTORE_PASSWORD_FILE
+        ? path.resolve(process.cwd(), process.env.KEYSTORE_PASSWORD_FILE)
+        : undefined,
+    },
+    // 'remote' signs through a separate signer daemon instead of holding the key
+    signer: {
+      type: (process.env.SIGNER_TYPE || 'local').toLowerCase() as 'local' | 'remote',
+      remoteUrl: process.env.REMOTE_SIGNER_URL || undefined,
+      remoteToken: process.env.REMOTE_SIGNER_TOKEN || undefined,
+      timeoutSeconds: parseFloat(process.env.REMOTE_SIGNER_TIMEOUT_SECONDS || '120'),
     },
     kyve: {
       rpcUrl: process.env.KYVE_RPC_URL || 'https://rpc-eu-1.kyve.network',
@@ -82,16 +247,124 @@ function loadConfig() {
       minEffectiveRate: parseFloat(process.env.MIN_EFFECTIVE_RATE || '0.0001'),
       schedule: process.env.SWAP_SCHEDULE || '0 0 * * *',
       dryRun: process.env.DRY_RUN === 'true',
-      usdcDestination: (process.env.USDC_DESTINATION || 'base') as 'ethereum' | 'base',
+      usdcDestination: (process.env.USDC_DESTINATION || 'base') as 'ethereum' | 'base' | 'auto',
+      autoDestinations: parseList(process.env.AUTO_DESTINATIONS || 'base,ethereum,noble').map(name => name.toLowerCase()),
       timeoutMinutes: parseFloat(process.env.SWAP_TIMEOUT_MINUTES || '10'),
+      executionMode: (process.env.SWAP_EXECUTION_MODE || 'single') as 'single' | 'twap',
+      twapSlices: parseInt(process.env.TWAP_SLICES || '4'),
+      twapWindowMinutes: parseFloat(process.env.TWAP_WINDOW_MINUTES || '60'),
+      maxPriceDeviationPercent: parseFloat(process.env.MAX_PRICE_DEVIATION_PERCENT || '5'),
+      triggerMode: (process.env.SWAP_TRIGGER_MODE || 'cron').toLowerCase() as 'cron' | 'price',
+      triggerPriceUSD: parseFloat(process.env.TRIGGER_PRICE_USD || '0'),
+      trailingStopPercent: parseFloat(process.env.TRIGGER_TRAILING_STOP_PERCENT || '0'),
+      triggerCooldownMinutes: parseFloat(process.env.TRIGGER_COOLDOWN_MINUTES || '60'),
+      triggerPollSeconds: parseInt(process.env.TRIGGER_POLL_SECONDS || '60'),
+    },
+    jobsFile: process.env.SWAP_JOBS_FILE,
+    // Limits of 0 are disabled; empty lists allow everything
+    routePolicy: {
+      allowUnsafe: process.env.ROUTE_ALLOW_UNSAFE !== 'false',
+      allowedBridges: parseList(process.env.ROUTE_ALLOWED_BRIDGES).map(bridge => bridge.toUpperCase()),
+      deniedBridges: parseList(process.env.ROUTE_DENIED_BRIDGES).map(bridge => bridge.toUpperCase()),
+      allowedVenues: parseList(process.env.ROUTE_ALLOWED_VENUES).map(venue => venue.toLowerCase()),
+      maxOperations: parseInt(process.env.ROUTE_MAX_OPERATIONS || '0'),
+      maxTxs: parseInt(process.env.ROUTE_MAX_TXS || '0'),
+      maxDurationMinutes: parseFloat(process.env.ROUTE_MAX_DURATION_MINUTES || '0'),
+      maxFeePercent: parseFloat(process.env.ROUTE_MAX_FEE_PERCENT || '0'),
+      blockWarnings: (blockWarnings.includes('ALL') ? ['BAD_PRICE_WARNING', 'LOW_INFO_WARNING'] : blockWarnings) as Array<'BAD_PRICE_WARNING' | 'LOW_INFO_WARNING'>,
+    },
+    rewards: {
+      autoClaim: process.env.AUTO_CLAIM_REWARDS === 'true',
+      claimCommission: process.env.CLAIM_VALIDATOR_COMMISSION === 'true',
+      minClaimAmount: parseFloat(process.env.MIN_CLAIM_REWARDS_KYVE || '1'),
+      gasPrice: process.env.KYVE_GAS_PRICE || '0.02ukyve',
+    },
+    taxLots: {
+      method: (process.env.TAX_LOT_METHOD || 'fifo').toLowerCase() as 'fifo' | 'lifo' | 'hifo',
+    },
+    export: {
+      currency: (process.env.REPORTING_CURRENCY || 'USD').toUpperCase(),
+      fxApiUrl: process.env.FX_API_URL || 'https://api.frankfurter.app',
+    },
+    storage: {
+      backend: (process.env.STORAGE_BACKEND || 'sqlite').toLowerCase() as 'sqlite' | 'json',
+      sqlitePath: path.resolve(process.cwd(), process.env.SQLITE_PATH || 'data/swapper.db'),
+    },
+    api: {
+      enabled: process.env.API_ENABLED === 'true',
+      host: process.env.API_HOST || '127.0.0.1',
+      port: parseInt(process.env.API_PORT || '8787'),
+      token: process.env.API_TOKEN || undefined,
+    },
+    metrics: {
+      enabled: process.env.METRICS_ENABLED === 'true',
+      host: process.env.METRICS_HOST || '127.0.0.1',
+      port: parseInt(process.env.METRICS_PORT || '9464'),
+    },
+    reports: {
+      period: reportPeriod as 'off' | 'daily' | 'weekly' | 'monthly',
+      // Shortly after the period ends: midnight, Monday midnight, the 1st of the month
+      schedule: process.env.REPORT_SCHEDULE
+        || ({ weekly: '5 0 * * 1', monthly: '5 0 1 * *' } as Record<string, string>)[reportPeriod]
+        || '5 0 * * *',
+      format: (process.env.REPORT_FORMAT || 'markdown').toLowerCase() as 'markdown' | 'html',
     },
     price: {
       cacheDuration: parseInt(process.env.PRICE_CACHE_DURATION_MINUTES || '5'),
+      sources: (process.env.PRICE_SOURCES || 'coingecko,coinpaprika,osmosis')
+        .split(',').map(source => source.trim()).filter(Boolean) as Array<'coingecko' | 'coinpaprika' | 'osmosis'>,
+      coingeckoApiKey: process.env.COINGECKO_API_KEY || undefined,
+      maxAgeSeconds: parseFloat(process.env.PRICE_MAX_AGE_SECONDS || '900'),
+      outlierPercent: parseFloat(process.env.PRICE_OUTLIER_PERCENT || '5'),
+      maxDisagreementPercent: parseFloat(process.env.PRICE_MAX_DISAGREEMENT_PERCENT || '10'),
+      minSources: parseInt(process.env.PRICE_MIN_SOURCES || '1'),
+      osmosisLcdUrl: process.env.OSMOSIS_LCD_URL || 'https://osmosis-rest.publicnode.com',
+      // e.g. {"kyve":{"poolId":"1234","baseDenom":"ibc/...","quoteDenom":"ibc/498A..."}}
+      osmosisPools: JSON.parse(process.env.OSMOSIS_PRICE_POOLS || '{}'),
     },
     notification: {
-      discordWebhook: process.env.DISCORD_WEBHOOK_URL,
-      telegramBotToken: process.env.TELEGRAM_BOT_TOKEN,
-      telegramChatId: process.env.TELEGRAM_CHAT_ID,
+      discordWebhook: process.env.DISCORD_WEBHOOK_URL || undefined,
+      telegramBotToken: process.env.TELEGRAM_BOT_TOKEN || undefined,
+      telegramChatId: process.env.TELEGRAM_CHAT_ID || undefined,
+      telegramApiUrl: process.env.TELEGRAM_API_URL || 'https://api.telegram.org',
+      slackWebhook: process.env.SLACK_WEBHOOK_URL || undefined,
+      webhookUrl: process.env.NOTIFY_WEBHOOK_URL || undefined,
+      webhookSecret: process.env.NOTIFY_WEBHOOK_SECRET || undefined,
+      email: process.env.SMTP_HOST ? {
+        host: process.env.SMTP_HOST,
+        port: parseInt(process.env.SMTP_PORT || '587'),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        from: process.env.EMAIL_FROM || '',
+        to: parseList(process.env.EMAIL_TO),
+      } : undefined,
+      ntfy: process.env.NTFY_TOPIC ? {
+        url: process.env.NTFY_URL || 'https://ntfy.sh',
+        topic: process.env.NTFY_TOPIC,
+        token: process.env.NTFY_TOKEN || undefined,
+      } : undefined,
+      // Per channel, e.g. DISCORD_MIN_LEVEL=warning, SLACK_MAX_PER_HOUR=10, EMAIL_QUIET_HOURS=22:00-07:00
+      channels: Object.fromEntries(NOTIFICATION_CHANNELS.map(channel => {
+        const prefix = channel.toUpperCase();
+        return [channel, {
+          minLevel: (process.env[`${prefix}_MIN_LEVEL`] || 'info').toLowerCase() as NotificationLevel,
+          maxPerHour: parseInt(process.env[`${prefix}_MAX_PER_HOUR`] || '0'),
+          quietHours: process.env[`${prefix}_QUIET_HOURS`] || process.env.NOTIFY_QUIET_HOURS || undefined,
+        }];
+      })) as Record<NotificationChannel, NotificationChannelPolicy>,
+      dedupWindowMinutes: parseFloat(process.env.NOTIFY_DEDUP_WINDOW_MINUTES || '60'),
+      templates: process.env.NOTIFICATION_TEMPLATES_FILE
+        ? JSON.parse(fs.readFileSync(path.resolve(process.cwd(), process.env.NOTIFICATION_TEMPLATES_FILE), 'utf-8'))
+        : {},
+    },
+    // Commands are only taken from these chats, and from these users when the list is set
+    telegramCommands: {
+      enabled: process.env.TELEGRAM_COMMANDS_ENABLED === 'true',
+      allowedChatIds: parseList(process.env.TELEGRAM_ALLOWED_CHAT_IDS || process.env.TELEGRAM_CHAT_ID),
+      allowedUserIds: parseList(process.env.TELEGRAM_ALLOWED_USER_IDS),
+      pollTimeoutSeconds: parseInt(process.env.TELEGRAM_POLL_TIMEOUT_SECONDS || '30'),
+      confirmSeconds: parseFloat(process.env.TELEGRAM_CONFIRM_SECONDS || '60'),
     },
     logging: {
       level: (process.env.LOG_LEVEL || 'info') as 'error' | 'warn' | 'info' | 'debug',
@@ -107,29 +380,171 @@ export const config = loadConfig();
 export const walletConfig: WalletConfig = {
   mnemonic: config.wallet.mnemonic,
   privateKey: config.wallet.privateKey,
+  keystoreFile: config.wallet.keystoreFile,
+  keystorePassword: config.wallet.keystorePassword,
+  keystorePasswordFile: config.wallet.keystorePasswordFile,
   addressPrefix: 'kyve',
 };
 
-// Dynamically configure destination based on USDC_DESTINATION setting
-const getDestinationConfig = () => {
-  if (config.swap.usdcDestination === 'ethereum') {
-    return {
-      chainId: config.ethereum.chainId,
-      usdcContract: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC on Ethereum L1
-      address: config.ethereum.evmAddress,
-    };
-  } else {
-    return {
-      chainId: config.base.chainId,
-      usdcContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base L2
-      address: config.base.evmAddress,
-    };
+// Drops every reference to the plaintext wallet secrets once the signing key has been derived.
+// Strings can't be overwritten in place, so this only lets them be garbage collected.
+export function clearWalletSecrets(): void {
+  for (const name of ['MNEMONIC', 'PRIVATE_KEY', 'KEYSTORE_PASSWORD']) {
+    delete process.env[name];
+  }
+  for (const wallet of [walletConfig, config.wallet]) {
+    wallet.mnemonic = undefined;
+    wallet.privateKey = undefined;
+    wallet.keystorePassword = undefined;
   }
+}
+
+const USDC_CONTRACTS = {
+  ethereum: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC on Ethereum L1
+  base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC on Base L2
+};
+
+// EVM destination chains whose USDC balance the bot reports
+export const evmChains: EvmChainConfig[] = [
+  {
+    name: 'ethereum',
+    chainId: config.ethereum.chainId,
+    rpcUrl: config.ethereum.rpcUrl,
+    address: config.ethereum.evmAddress,
+    usdcContract: USDC_CONTRACTS.ethereum,
+  },
+  {
+    name: 'base',
+    chainId: config.base.chainId,
+    rpcUrl: config.base.rpcUrl,
+    address: config.base.evmAddress,
+    usdcContract: USDC_CONTRACTS.base,
+  },
+];
+
+// RPC endpoints for Cosmos chains a route may touch (balances, fee lookups)
+export const cosmosRpcUrls: Record<string, string> = {
+  [config.kyve.chainId]: config.kyve.rpcUrl,
+  'cosmoshub-4': process.env.COSMOSHUB_RPC_URL || 'https://cosmos-rpc.publicnode.com',
+  'osmosis-1': process.env.OSMOSIS_RPC_URL || 'https://osmosis-rpc.publicnode.com',
+  'noble-1': process.env.NOBLE_RPC_URL || 'https://noble-rpc.publicnode.com',
+  'axelar-dojo-1': process.env.AXELAR_RPC_URL || 'https://axelar-rpc.publicnode.com',
+};
+
+// Well-known source assets that swap jobs can reference by name
+const SOURCE_PRESETS: Record<string, Pick<SwapConfig, 'sourceChainId' | 'sourceAsset' | 'sourceSymbol' | 'sourceDecimals' | 'sourceRpcUrl'>> = {
+  kyve: {
+    sourceChainId: config.kyve.chainId,
+    sourceAsset: 'ukyve',
+    sourceSymbol: 'KYVE',
+    sourceDecimals: 6,
+    sourceRpcUrl: config.kyve.rpcUrl,
+  },
+  atom: {
+    sourceChainId: 'cosmoshub-4',
+    sourceAsset: 'uatom',
+    sourceSymbol: 'ATOM',
+    sourceDecimals: 6,
+    sourceRpcUrl: cosmosRpcUrls['cosmoshub-4'],
+  },
+  osmo: {
+    sourceChainId: 'osmosis-1',
+    sourceAsset: 'uosmo',
+    sourceSymbol: 'OSMO',
+    sourceDecimals: 6,
+    sourceRpcUrl: cosmosRpcUrls['osmosis-1'],
+  },
+};
+
+// USDC destinations that swap jobs can reference by name
+const DESTINATION_PRESETS: Record<string, Pick<SwapConfig, 'destChainId' | 'destAsset' | 'destSymbol' | 'destDecimals' | 'destAddress'>> = {
+  ethereum: {
+    destChainId: config.ethereum.chainId,
+    destAsset: USDC_CONTRACTS.ethereum,
+    destSymbol: 'USDC',
+    destDecimals: 6,
+    destAddress: config.ethereum.evmAddress,
+  },
+  base: {
+    destChainId: config.base.chainId,
+    destAsset: USDC_CONTRACTS.base,
+    destSymbol: 'USDC',
+    destDecimals: 6,
+    destAddress: config.base.evmAddress,
+  },
+  noble: {
+    destChainId: 'noble-1',
+    destAsset: 'uusdc', // Native USDC on Noble; address is derived from the wallet when omitted
+    destSymbol: 'USDC',
+    destDecimals: 6,
+  },
+  osmosis: {
+    destChainId: 'osmosis-1',
+    destAsset: 'ibc/498A0751C798A0D9A389AA3691123DADA57DAA4FE165D5C75894505B876BA6E4', // Noble USDC on Osmosis
+    destSymbol: 'USDC',
+    destDecimals: 6,
+  },
 };
 
-const destConfig = getDestinationConfig();
+// USDC_DESTINATION / "destination" value that quotes every candidate per swap
+export const AUTO_DESTINATION = 'auto';
+
+const SwapJobSchema = z.object({
+  name: z.string().min(1),
+  minSwapAmountUSD: z.number().positive(),
+  maxSwapAmountUSD: z.number().positive(),
+  swapPercentage: z.number().min(0).max(100),
+  keepReserve: z.string(),
+  maxSlippage: z.number(),
+  minEffectiveRate: z.number(),
+  schedule: z.string(),
+  dryRun: z.boolean(),
+  timeoutMinutes: z.number().positive(),
+  executionMode: z.enum(['single', 'twap']),
+  twapSlices: z.number().int().min(1),
+  twapWindowMinutes: z.number().nonnegative(),
+  maxPriceDeviationPercent: z.number().nonnegative(),
+  triggerMode: z.enum(['cron', 'price']),
+  triggerPriceUSD: z.number().nonnegative(),
+  trailingStopPercent: z.number().min(0).max(100),
+  triggerCooldownMinutes: z.number().nonnegative(),
+  sourceChainId: z.string().min(1),
+  destChainId: z.string().min(1),
+  sourceAsset: z.string().min(1),
+  destAsset: z.string().min(1),
+  destAddress: z.string().optional(),
+  sourceSymbol: z.string().min(1),
+  destSymbol: z.string().min(1),
+  sourceDecimals: z.number().int().nonnegative(),
+  destDecimals: z.number().int().nonnegative(),
+  sourceRpcUrl: z.string().url(),
+  autoDestinations: z.array(z.string()).min(1).optional(),
+}).superRefine((job, ctx) => {
+  if (!(job.autoDestinations || []).every(name => DESTINATION_PRESETS[name])) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Unknown auto destination in ${job.autoDestinations!.join(', ')} (expected ${Object.keys(DESTINATION_PRESETS).join(', ')})`,
+      path: ['autoDestinations'],
+    });
+  }
+  if (job.triggerMode === 'price' && job.triggerPriceUSD === 0 && job.trailingStopPercent === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Price trigger needs a target price, a trailing stop, or both',
+      path: ['triggerPriceUSD'],
+    });
+  }
+});
+
+// Entries in SWAP_JOBS_FILE: presets plus any SwapConfig field as an override
+const SwapJobFileEntrySchema = SwapJobSchema.innerType().partial().extend({
+  name: z.string().min(1),
+  source: z.string().default('kyve'),
+  destination: z.string().default(config.swap.usdcDestination),
+  maxSlippagePercent: z.number().optional(),
+});
 
-export const swapConfig: SwapConfig = {
+const defaultJobSettings = {
   minSwapAmountUSD: config.swap.minSwapAmountUSD,
   maxSwapAmountUSD: config.swap.maxSwapAmountUSD,
   swapPercentage: config.swap.swapPercentage,
@@ -139,15 +554,113 @@ export const swapConfig: SwapConfig = {
   schedule: config.swap.schedule,
   dryRun: config.swap.dryRun,
   timeoutMinutes: config.swap.timeoutMinutes,
-  sourceChainId: config.kyve.chainId,
-  destChainId: destConfig.chainId,
-  sourceAsset: 'ukyve',
-  destAsset: destConfig.usdcContract,
-  destAddress: destConfig.address,
+  executionMode: config.swap.executionMode,
+  twapSlices: config.swap.twapSlices,
+  twapWindowMinutes: config.swap.twapWindowMinutes,
+  maxPriceDeviationPercent: config.swap.maxPriceDeviationPercent,
+  triggerMode: config.swap.triggerMode,
+  triggerPriceUSD: config.swap.triggerPriceUSD,
+  trailingStopPercent: config.swap.trailingStopPercent,
+  triggerCooldownMinutes: config.swap.triggerCooldownMinutes,
 };
 
+function resolveSwapJob(entry: z.input<typeof SwapJobFileEntrySchema>): SwapConfig {
+  const { source, destination, maxSlippagePercent, ...overrides } = SwapJobFileEntrySchema.parse(entry);
+
+  const sourcePreset = SOURCE_PRESETS[source.toLowerCase()];
+  const auto = destination.toLowerCase() === AUTO_DESTINATION;
+  const autoDestinations = auto ? (overrides.autoDestinations || config.swap.autoDestinations) : undefined;
+  const destPreset = DESTINATION_PRESETS[autoDestinations ? autoDestinations[0] : destination.toLowerCase()];
+  if (!sourcePreset && !overrides.sourceChainId) {
+    throw new Error(`Swap job "${entry.name}": unknown source "${source}" and no sourceChainId given`);
+  }
+  if (!destPreset && !overrides.destChainId) {
+    throw new Error(`Swap job "${entry.name}": unknown destination "${destination}" and no destChainId given`);
+  }
+
+  return SwapJobSchema.parse({
+    ...defaultJobSettings,
+    ...sourcePreset,
+    ...destPreset,
+    ...overrides,
+    ...(maxSlippagePercent !== undefined ? { maxSlippage: maxSlippagePercent / 100 } : {}),
+    autoDestinations,
+  });
+}
+
+function loadSwapJobs(): SwapConfig[] {
+  if (!config.jobsFile) {
+    return [resolveSwapJob({ name: 'default' })];
+  }
+
+  const filePath = path.resolve(process.cwd(), config.jobsFile);
+  const entries = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`SWAP_JOBS_FILE ${filePath} must contain a non-empty array of jobs`);
+  }
+
+  const jobs = entries.map(resolveSwapJob);
+  const names = new Set<string>();
+  for (const job of jobs) {
+    if (names.has(job.name)) {
+      throw new Error(`Duplicate swap job name "${job.name}" in ${filePath}`);
+    }
+    names.add(job.name);
+  }
+
+  return jobs;
+}
+
+// All configured swap jobs. Without SWAP_JOBS_FILE this is a single "default"
+// KYVE → USDC job built from the SWAP_* / USDC_DESTINATION variables.
+export const swapJobs: SwapConfig[] = loadSwapJobs();
+
+// The first job; also carries the global defaults used by single-job code paths
+export const swapConfig: SwapConfig = swapJobs[0];
+
+export function getSwapJob(name: string): SwapConfig | undefined {
+  return swapJobs.find(job => job.name === name);
+}
+
+export const destinationNames = Object.keys(DESTINATION_PRESETS);
+
+// A copy of `job` with one-off overrides (e.g. CLI flags), validated like a configured job.
+// `destination` swaps in a destination preset, including its address, or "auto".
+export function overrideSwapJob(job: SwapConfig, overrides: Partial<SwapConfig> & { destination?: string }): SwapConfig {
+  const { destination, ...fields } = overrides;
+
+  let destPreset = {};
+  let autoDestinations = job.autoDestinations;
+  if (destination) {
+    autoDestinations = destination.toLowerCase() === AUTO_DESTINATION
+      ? job.autoDestinations || config.swap.autoDestinations
+      : undefined;
+    destPreset = DESTINATION_PRESETS[autoDestinations ? autoDestinations[0] : destination.toLowerCase()];
+    if (!destPreset) {
+      throw new Error(`Unknown destination "${destination}" (expected ${destinationNames.join(', ')} or ${AUTO_DESTINATION})`);
+    }
+  }
+
+  return SwapJobSchema.parse({
+    ...job,
+    ...(destination ? { destAddress: undefined } : {}),
+    ...destPreset,
+    autoDestinations,
+    ...fields,
+  });
+}
+
 export const notificationConfig: NotificationConfig = {
   discordWebhook: config.notification.discordWebhook,
   telegramBotToken: config.notification.telegramBotToken,
   telegramChatId: config.notification.telegramChatId,
-};
\ No newline at end of file
+  telegramApiUrl: config.notification.telegramApiUrl,
+  slackWebhook: config.notification.slackWebhook,
+  webhookUrl: config.notification.webhookUrl,
+  webhookSecret: config.notification.webhookSecret,
+  email: config.notification.email,
+  ntfy: config.notification.ntfy,
+  channels: config.notification.channels,
+  dedupWindowMinutes: config.notification.dedupWindowMinutes,
+  templates: config.notification.templates,
+};
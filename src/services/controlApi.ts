@@ -0,0 +1,249 @@
+import http from 'http';
+import crypto from 'crypto';
+import { getSwapJob, swapJobs } from '../config';
+import { ControlApiStatus, SchedulerState, SwapConfig, SwapTransaction, SwapTriggerResult } from '../types';
+import { logger } from '../utils/logger';
+import { SwapOrchestrator } from './swapOrchestrator';
+import { TransactionQuery } from './transactionStore';
+
+const MAX_BODY_BYTES = 64 * 1024;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+const STATUSES: SwapTransaction['status'][] = ['pending', 'timed_out', 'completed', 'failed', 'stuck'];
+
+// Scheduler controls owned by the bot process (cron tasks live there, not in the orchestrator)
+export interface SchedulerControl {
+  getState(): SchedulerState;
+  pause(): SchedulerState;
+  resume(): SchedulerState;
+}
+
+export interface ControlApiOptions {
+  host: string;
+  port: number;
+  token: string;
+}
+
+class HttpError extends Error {
+  constructor(readonly statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Local HTTP control API. Every route except /api/health needs
+ * `Authorization: Bearer <API_TOKEN>`; responses are JSON, errors are `{ error }`.
+ *
+ *   GET  /api/status            BotStatus plus scheduler state
+ *   GET  /api/history           HistoryPage, newest first (?limit, offset, job, status, chain, from, to, slices)
+ *   GET  /api/history/:id       SwapTransaction
+ *   GET  /api/quote             SwapQuote (?job, amount in whole source units)
+ *   POST /api/swaps             Starts a swap now ({ "job"?: string }), 202
+ *   POST /api/scheduler/pause   Stops scheduled swaps
+ *   POST /api/scheduler/resume  Restarts scheduled swaps
+ */
+export class ControlApiServer {
+  private server: http.Server | null = null;
+  private tokenDigest: Buffer;
+
+  constructor(
+    private orchestrator: SwapOrchestrator,
+    private scheduler: SchedulerControl,
+    private options: ControlApiOptions
+  ) {
+    this.tokenDigest = this.digest(options.token);
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        logger.error(`Control API request failed: ${error.message || error}`);
+        this.send(res, 500, { error: 'Internal error' });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.options.port, this.options.host, () => resolve());
+    });
+
+    logger.info(`Control API listening on http://${this.options.host}:${this.options.port}`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = `${req.method} ${url.pathname.replace(/\/$/, '')}`;
+
+    if (route === 'GET /api/health') {
+      this.send(res, 200, { ok: true });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.send(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    try {
+      const historyMatch = url.pathname.match(/^\/api\/history\/([^/]+)$/);
+
+      if (route === 'GET /api/status') {
+        const status: ControlApiStatus = { ...await this.orchestrator.getStatus(), scheduler: this.scheduler.getState() };
+        this.send(res, 200, status);
+      } else if (route === 'GET /api/history') {
+        this.send(res, 200, this.orchestrator.getHistory(this.parseHistoryQuery(url.searchParams)));
+      } else if (req.method === 'GET' && historyMatch) {
+        const record = this.orchestrator.getTransaction(decodeURIComponent(historyMatch[1]));
+        if (!record) {
+          throw new HttpError(404, `Transaction ${historyMatch[1]} not found`);
+        }
+        this.send(res, 200, record);
+      } else if (route === 'GET /api/quote') {
+        const job = this.resolveJob(url.searchParams.get('job'));
+        const amountParam = url.searchParams.get('amount');
+        const amount = amountParam !== null ? parseFloat(amountParam) : undefined;
+        if (amount !== undefined && !(amount > 0)) {
+          throw new HttpError(400, `Invalid amount "${amountParam}"`);
+        }
+        this.send(res, 200, await this.orchestrator.getQuote(job, amount));
+      } else if (route === 'POST /api/swaps') {
+        const body = await this.readJson(req);
+        const result: SwapTriggerResult = { accepted: this.triggerSwap(body.job) };
+        this.send(res, 202, result);
+      } else if (route === 'POST /api/scheduler/pause') {
+        this.send(res, 200, this.scheduler.pause());
+      } else if (route === 'POST /api/scheduler/resume') {
+        this.send(res, 200, this.scheduler.resume());
+      } else {
+        throw new HttpError(404, `No route for ${route}`);
+      }
+    } catch (error: any) {
+      if (error instanceof HttpError) {
+        this.send(res, error.statusCode, { error: error.message });
+      } else {
+        logger.error(`Control API ${route} failed: ${error.message || error}`);
+        this.send(res, 502, { error: error.message || String(error) });
+      }
+    }
+  }
+
+  // Starts the swap(s) in the background and returns the job names; results land in the history
+  private triggerSwap(jobName: unknown): string[] {
+    if (jobName !== undefined && typeof jobName !== 'string') {
+      throw new HttpError(400, '"job" must be a string');
+    }
+
+    const jobs = jobName ? [this.resolveJob(jobName)] : swapJobs;
+    const busy = jobs.filter(job => this.orchestrator.isJobRunning(job.name));
+    if (busy.length > 0) {
+      throw new HttpError(409, `Swap already in progress for ${busy.map(job => `"${job.name}"`).join(', ')}`);
+    }
+
+    logger.info(`Swap requested through the control API for ${jobs.map(job => job.name).join(', ')}`);
+    (async () => {
+      for (const job of jobs) {
+        await this.orchestrator.executeSwap(job);
+      }
+    })().catch(error => logger.error(`API-triggered swap failed: ${error.message || error}`));
+
+    return jobs.map(job => job.name);
+  }
+
+  private resolveJob(jobName: string | null | undefined): SwapConfig {
+    if (!jobName) {
+      return swapJobs[0];
+    }
+    const job = getSwapJob(jobName);
+    if (!job) {
+      throw new HttpError(404, `Unknown swap job "${jobName}"`);
+    }
+    return job;
+  }
+
+  private parseHistoryQuery(params: URLSearchParams): TransactionQuery {
+    const limit = params.has('limit') ? parseInt(params.get('limit')!) : DEFAULT_PAGE_SIZE;
+    const offset = params.has('offset') ? parseInt(params.get('offset')!) : 0;
+    if (!(limit >= 1 && limit <= MAX_PAGE_SIZE)) {
+      throw new HttpError(400, `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    if (!(offset >= 0)) {
+      throw new HttpError(400, 'offset must not be negative');
+    }
+
+    const status = params.get('status')?.split(',').map(value => value.trim()) as SwapTransaction['status'][] | undefined;
+    const unknown = status?.filter(value => !STATUSES.includes(value));
+    if (unknown && unknown.length > 0) {
+      throw new HttpError(400, `Unknown status ${unknown.join(', ')} (expected ${STATUSES.join(', ')})`);
+    }
+
+    return {
+      jobName: params.get('job') || undefined,
+      status,
+      chainId: params.get('chain') || undefined,
+      from: this.parseDate(params.get('from'), 'from'),
+      to: this.parseDate(params.get('to'), 'to'),
+      topLevelOnly: params.get('slices') !== 'true',
+      order: 'desc',
+      limit,
+      offset,
+    };
+  }
+
+  private parseDate(value: string | null, name: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new HttpError(400, `Invalid ${name} date "${value}"`);
+    }
+    return date;
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        throw new HttpError(413, 'Request body too large');
+      }
+      chunks.push(chunk);
+    }
+
+    const raw = Buffer.concat(chunks).toString('utf-8').trim();
+    if (!raw) return {};
+
+    try {
+      const body = JSON.parse(raw);
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new Error('not an object');
+      }
+      return body;
+    } catch {
+      throw new HttpError(400, 'Request body must be a JSON object');
+    }
+  }
+
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    // Compare digests so the check takes the same time whatever the token length
+    return !!match && crypto.timingSafeEqual(this.digest(match[1].trim()), this.tokenDigest);
+  }
+
+  private digest(value: string): Buffer {
+    return crypto.createHash('sha256').update(value).digest();
+  }
+
+  private send(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    if (res.headersSent) return;
+    res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  }
+}
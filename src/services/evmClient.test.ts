@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { FakeHttpServer, sendJson } from '../test/fakeHttpServer';
+import { EvmClient } from './evmClient';
+
+const USDC = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const OWNER = '0x000000000000000000000000000000000000dEaD';
+
+interface RpcRequest {
+  method: string;
+  params: any[];
+}
+
+// Local JSON-RPC stand-in: answers eth_call by selector and records every request
+class FakeRpcNode {
+  requests: RpcRequest[] = [];
+  balances = new Map<string, bigint>(); // owner (lowercase) -> balance
+  decimals = 6;
+  readonly server = new FakeHttpServer((_req, body, res) => {
+    const { id, method, params } = JSON.parse(body);
+    this.requests.push({ method, params });
+    sendJson(res, 200, { jsonrpc: '2.0', id, ...this.answer(method, params) });
+  });
+
+  private answer(method: string, params: any[]): { result?: unknown; error?: { code: number; message: string } } {
+    if (method === 'eth_getTransactionReceipt') {
+      return { result: params[0] === '0xmined' ? { gasUsed: '0x5208', effectiveGasPrice: '0x3b9aca00' } : null };
+    }
+    if (method !== 'eth_call') {
+      return { error: { code: -32601, message: 'method not found' } };
+    }
+
+    const [{ to, data }] = params;
+    if (to.toLowerCase() !== USDC.toLowerCase()) {
+      return { result: '0x' };
+    }
+    if (data === '0x313ce567') {
+      return { result: `0x${this.decimals.toString(16).padStart(64, '0')}` };
+    }
+    if (data.startsWith('0x70a08231')) {
+      const owner = `0x${data.slice(-40)}`;
+      return { result: `0x${(this.balances.get(owner) || BigInt(0)).toString(16).padStart(64, '0')}` };
+    }
+    return { error: { code: -32000, message: 'execution reverted' } };
+  }
+}
+
+describe('EvmClient', () => {
+  const node = new FakeRpcNode();
+  let client: EvmClient;
+
+  beforeAll(async () => {
+    client = new EvmClient(await node.server.listen());
+  });
+
+  afterAll(() => node.server.close());
+
+  beforeEach(() => {
+    node.requests = [];
+  });
+
+  it('reads an ERC-20 balance with eth_call balanceOf', async () => {
+    node.balances.set(OWNER.toLowerCase(), BigInt('123456789012345678901'));
+
+    await expect(client.getTokenBalance(USDC, OWNER)).resolves.toBe('123456789012345678901');
+    expect(node.requests).toEqual([{
+      method: 'eth_call',
+      params: [{ to: USDC, data: `0x70a08231${'0'.repeat(24)}${OWNER.slice(2).toLowerCase()}` }, 'latest'],
+    }]);
+  });
+
+  it('reads token decimals once and caches them', async () => {
+    node.decimals = 18;
+
+    await expect(client.getTokenDecimals(USDC)).resolves.toBe(18);
+    await expect(client.getTokenDecimals(USDC.toLowerCase())).resolves.toBe(18);
+    expect(node.requests).toHaveLength(1);
+  });
+
+  it('rejects an invalid owner address without calling the node', async () => {
+    await expect(client.getTokenBalance(USDC, 'kyve1notanevmaddress')).rejects.toThrow('Invalid EVM address');
+    expect(node.requests).toHaveLength(0);
+  });
+
+  it('fails on an empty result from an address without a contract', async () => {
+    await expect(client.getTokenBalance('0x0000000000000000000000000000000000000001', OWNER))
+      .rejects.toThrow('Empty eth_call result');
+  });
+
+  it('surfaces JSON-RPC errors', async () => {
+    await expect(client.call(USDC, '0xdeadbeef')).rejects.toThrow('eth_call failed: execution reverted');
+  });
+
+  it('computes the fee of a mined transaction and returns null before it is mined', async () => {
+    await expect(client.getTransactionFee('0xmined')).resolves.toBe((BigInt(21000) * BigInt(1e9)).toString());
+    await expect(client.getTransactionFee('0xpending')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+
+// ERC-20 function selectors
+const BALANCE_OF_SELECTOR = '0x70a08231';
+const DECIMALS_SELECTOR = '0x313ce567';
+
+/**
+ * Minimal JSON-RPC client for read-only ERC-20 queries. Talks plain
+ * `eth_call` over HTTP so any compatible endpoint (or a local stand-in) works.
+ */
+export class EvmClient {
+  private rpcUrl: string;
+  private requestId: number = 0;
+  private decimalsCache: Map<string, number> = new Map();
+
+  constructor(rpcUrl: string) {
+    this.rpcUrl = rpcUrl;
+  }
+
+  async getTokenBalance(tokenContract: string, owner: string): Promise<string> {
+    const data = BALANCE_OF_SELECTOR + this.encodeAddress(owner);
+    const result = await this.call(tokenContract, data);
+    return this.decodeUint(result).toString();
+  }
+
+  async getTokenDecimals(tokenContract: string): Promise<number> {
+    const key = tokenContract.toLowerCase();
+    const cached = this.decimalsCache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const result = await this.call(tokenContract, DECIMALS_SELECTOR);
+    const decimals = Number(this.decodeUint(result));
+    this.decimalsCache.set(key, decimals);
+    return decimals;
+  }
+
+  // Fee paid by a mined transaction in wei (gasUsed × effectiveGasPrice), or null if not yet mined
+  async getTransactionFee(txHash: string): Promise<string | null> {
+    const receipt = await this.request('eth_getTransactionReceipt', [txHash]);
+    if (!receipt) {
+      return null;
+    }
+
+    const gasUsed = BigInt(receipt.gasUsed);
+    const gasPrice = BigInt(receipt.effectiveGasPrice || '0x0');
+    return (gasUsed * gasPrice).toString();
+  }
+
+  async call(to: string, data: string): Promise<string> {
+    const result = await this.request('eth_call', [{ to, data }, 'latest']);
+    logger.debug(`eth_call ${to} ${data.substring(0, 10)} -> ${result}`);
+    return result;
+  }
+
+  private async request(method: string, params: any[]): Promise<any> {
+    const response = await axios.post(this.rpcUrl, {
+      jsonrpc: '2.0',
+      id: ++this.requestId,
+      method,
+      params,
+    });
+
+    if (response.data.error) {
+      throw new Error(`${method} failed: ${response.data.error.message || JSON.stringify(response.data.error)}`);
+    }
+
+    return response.data.result;
+  }
+
+  private encodeAddress(address: string): string {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+      throw new Error(`Invalid EVM address: ${address}`);
+    }
+    return address.slice(2).toLowerCase().padStart(64, '0');
+  }
+
+  private decodeUint(result: string): bigint {
+    if (!result || result === '0x') {
+      throw new Error('Empty eth_call result (is the contract deployed on this chain?)');
+    }
+    return BigInt(result);
+  }
+}
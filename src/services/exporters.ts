@@ -0,0 +1,331 @@
+import { createObjectCsvStringifier } from 'csv-writer';
+import { config, getSwapJob } from '../config';
+import { SwapTransaction } from '../types';
+import { parseDateFlag, parseFlags, UsageError } from '../utils/args';
+import { getChainDisplayName } from '../utils/chains';
+import { FxRateService } from './fxRateService';
+
+export interface ExportOptions {
+  from?: Date; // Inclusive
+  to?: Date; // Inclusive
+  currency: string; // Reporting currency, e.g. USD or EUR
+}
+
+// A completed swap with amounts in whole tokens and values in the reporting currency
+export interface ExportRow {
+  id: string;
+  date: Date;
+  sentAmount: number;
+  sentCurrency: string;
+  receivedAmount: number;
+  receivedCurrency: string;
+  feeValue: number; // gasFeesUSD
+  marketValue: number; // costBasisUSD: market value of what was sent
+  proceeds: number; // Received amount at the destination asset's price
+  costBasis: number; // From consumed tax lots when available, otherwise marketValue
+  destChain: string;
+  txHash: string;
+  chainTransactions: string[];
+}
+
+export interface TransactionExporter {
+  readonly format: string;
+  readonly description: string;
+  readonly extension: string;
+  render(rows: ExportRow[], currency: string): string;
+}
+
+// Builds export rows for completed swaps inside the date range. TWAP parents are
+// skipped: their slices are the actual swaps.
+export async function buildExportRows(
+  transactions: SwapTransaction[],
+  options: ExportOptions,
+  fxRates: FxRateService = new FxRateService()
+): Promise<ExportRow[]> {
+  const inRange = transactions
+    .filter(tx => tx.status === 'completed' && !tx.twap)
+    .filter(tx => {
+      const time = new Date(tx.timestamp).getTime();
+      return (!options.from || time >= options.from.getTime()) && (!options.to || time <= options.to.getTime());
+    })
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  const rows: ExportRow[] = [];
+  for (const tx of inRange) {
+    const date = new Date(tx.timestamp);
+    const rate = await fxRates.getUsdRate(options.currency, date);
+    const job = getSwapJob(tx.jobName || 'default');
+    const receivedAmount = parseFloat(tx.toAmount) / Math.pow(10, job?.destDecimals ?? 6);
+
+    rows.push({
+      id: tx.id,
+      date,
+      sentAmount: parseFloat(tx.fromAmount) / Math.pow(10, job?.sourceDecimals ?? 6),
+      sentCurrency: tx.fromToken,
+      receivedAmount,
+      receivedCurrency: tx.toToken,
+      feeValue: tx.gasFeesUSD * rate,
+      marketValue: tx.costBasisUSD * rate,
+      proceeds: (tx.realized?.proceedsUSD ?? receivedAmount * (tx.usdcPrice || 1)) * rate,
+      costBasis: (tx.realized?.costBasisUSD ?? tx.costBasisUSD) * rate,
+      destChain: getChainDisplayName(tx.toChainId),
+      txHash: tx.txHash,
+      chainTransactions: (tx.chainTransactions || [])
+        .filter(ctx => ctx.txHash)
+        .map(ctx => `${ctx.chainId}:${ctx.txHash}`),
+    });
+  }
+
+  return rows;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// YYYY-MM-DD in UTC
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// MM/DD/YYYY HH:MM:SS in UTC
+function usDateTime(date: Date): string {
+  return `${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())}/${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+function toCsv(header: Array<{ id: string; title: string }>, records: object[]): string {
+  const stringifier = createObjectCsvStringifier({ header });
+  return stringifier.getHeaderString() + stringifier.stringifyRecords(records);
+}
+
+// The bot's own layout (previously the only export format)
+class DefaultExporter implements TransactionExporter {
+  readonly format = 'default';
+  readonly description = 'Generic swap history CSV';
+  readonly extension = 'csv';
+
+  render(rows: ExportRow[], currency: string): string {
+    return toCsv([
+      { id: 'date', title: 'Date' },
+      { id: 'sentAmount', title: 'Sent Amount' },
+      { id: 'sentCurrency', title: 'Sent Currency' },
+      { id: 'receivedAmount', title: 'Received Amount' },
+      { id: 'receivedCurrency', title: 'Received Currency' },
+      { id: 'feeAmount', title: 'Fee Amount' },
+      { id: 'feeCurrency', title: 'Fee Currency' },
+      { id: 'netWorthAmount', title: 'Net Worth Amount' },
+      { id: 'netWorthCurrency', title: 'Net Worth Currency' },
+      { id: 'label', title: 'Label' },
+      { id: 'description', title: 'Description' },
+      { id: 'txHash', title: 'TxHash' },
+      { id: 'chainTransactions', title: 'Chain Transactions' },
+    ], rows.map(row => ({
+      date: isoDate(row.date),
+      sentAmount: row.sentAmount.toFixed(6),
+      sentCurrency: row.sentCurrency,
+      receivedAmount: row.receivedAmount.toFixed(6),
+      receivedCurrency: row.receivedCurrency,
+      feeAmount: row.feeValue.toFixed(4),
+      feeCurrency: currency,
+      netWorthAmount: row.marketValue.toFixed(2),
+      netWorthCurrency: currency,
+      label: 'Crypto Swap',
+      description: `Swapped ${row.sentCurrency} to ${row.receivedCurrency} on ${row.destChain} via Skip Protocol`,
+      txHash: row.txHash,
+      chainTransactions: row.chainTransactions.length > 0 ? row.chainTransactions.join(' | ') : row.txHash,
+    })));
+  }
+}
+
+// Koinly "universal" CSV; trades carry no label
+class KoinlyExporter implements TransactionExporter {
+  readonly format = 'koinly';
+  readonly description = 'Koinly universal CSV';
+  readonly extension = 'csv';
+
+  render(rows: ExportRow[], currency: string): string {
+    return toCsv([
+      { id: 'date', title: 'Date' },
+      { id: 'sentAmount', title: 'Sent Amount' },
+      { id: 'sentCurrency', title: 'Sent Currency' },
+      { id: 'receivedAmount', title: 'Received Amount' },
+      { id: 'receivedCurrency', title: 'Received Currency' },
+      { id: 'feeAmount', title: 'Fee Amount' },
+      { id: 'feeCurrency', title: 'Fee Currency' },
+      { id: 'netWorthAmount', title: 'Net Worth Amount' },
+      { id: 'netWorthCurrency', title: 'Net Worth Currency' },
+      { id: 'label', title: 'Label' },
+      { id: 'description', title: 'Description' },
+      { id: 'txHash', title: 'TxHash' },
+    ], rows.map(row => ({
+      date: `${isoDate(row.date)} ${row.date.toISOString().substring(11, 19)} UTC`,
+      sentAmount: row.sentAmount.toFixed(6),
+      sentCurrency: row.sentCurrency,
+      receivedAmount: row.receivedAmount.toFixed(6),
+      receivedCurrency: row.receivedCurrency,
+      feeAmount: row.feeValue.toFixed(4),
+      feeCurrency: currency,
+      netWorthAmount: row.proceeds.toFixed(2),
+      netWorthCurrency: currency,
+      label: '',
+      description: `${row.sentCurrency} → ${row.receivedCurrency} via Skip Protocol (${row.destChain})`,
+      txHash: row.txHash,
+    })));
+  }
+}
+
+class CoinTrackerExporter implements TransactionExporter {
+  readonly format = 'cointracker';
+  readonly description = 'CoinTracker CSV';
+  readonly extension = 'csv';
+
+  render(rows: ExportRow[], currency: string): string {
+    return toCsv([
+      { id: 'date', title: 'Date' },
+      { id: 'receivedQuantity', title: 'Received Quantity' },
+      { id: 'receivedCurrency', title: 'Received Currency' },
+      { id: 'sentQuantity', title: 'Sent Quantity' },
+      { id: 'sentCurrency', title: 'Sent Currency' },
+      { id: 'feeAmount', title: 'Fee Amount' },
+      { id: 'feeCurrency', title: 'Fee Currency' },
+      { id: 'tag', title: 'Tag' },
+    ], rows.map(row => ({
+      date: usDateTime(row.date),
+      receivedQuantity: row.receivedAmount.toFixed(6),
+      receivedCurrency: row.receivedCurrency,
+      sentQuantity: row.sentAmount.toFixed(6),
+      sentCurrency: row.sentCurrency,
+      feeAmount: row.feeValue.toFixed(4),
+      feeCurrency: currency,
+      tag: '',
+    })));
+  }
+}
+
+class CoinLedgerExporter implements TransactionExporter {
+  readonly format = 'coinledger';
+  readonly description = 'CoinLedger universal CSV';
+  readonly extension = 'csv';
+
+  render(rows: ExportRow[], currency: string): string {
+    return toCsv([
+      { id: 'date', title: 'Date (UTC)' },
+      { id: 'platform', title: 'Platform (Optional)' },
+      { id: 'assetSent', title: 'Asset Sent' },
+      { id: 'amountSent', title: 'Amount Sent' },
+      { id: 'assetReceived', title: 'Asset Received' },
+      { id: 'amountReceived', title: 'Amount Received' },
+      { id: 'feeCurrency', title: 'Fee Currency (Optional)' },
+      { id: 'feeAmount', title: 'Fee Amount (Optional)' },
+      { id: 'type', title: 'Type' },
+      { id: 'description', title: 'Description (Optional)' },
+      { id: 'txHash', title: 'TxHash (Optional)' },
+    ], rows.map(row => ({
+      date: usDateTime(row.date),
+      platform: 'Skip Protocol',
+      assetSent: row.sentCurrency,
+      amountSent: row.sentAmount.toFixed(6),
+      assetReceived: row.receivedCurrency,
+      amountReceived: row.receivedAmount.toFixed(6),
+      feeCurrency: currency,
+      feeAmount: row.feeValue.toFixed(4),
+      type: 'Trade',
+      description: `Swap to ${row.destChain}`,
+      txHash: row.txHash,
+    })));
+  }
+}
+
+// Double-entry postings: received asset at proceeds, sent asset at cost basis, and the
+// difference booked as a capital gain (negative) or loss (positive). Fees go in a comment
+// since they were paid out of the swapped amounts.
+class HledgerExporter implements TransactionExporter {
+  readonly format = 'hledger';
+  readonly description = 'hledger / ledger-cli journal';
+  readonly extension = 'journal';
+
+  render(rows: ExportRow[], currency: string): string {
+    return rows.map(row => [
+      `${isoDate(row.date)} * Swap ${row.sentCurrency} to ${row.receivedCurrency}  ; id:${row.id}, tx:${row.txHash}`,
+      `    assets:crypto:${row.receivedCurrency.toLowerCase()}  ${row.receivedAmount.toFixed(6)} ${row.receivedCurrency} @@ ${row.proceeds.toFixed(2)} ${currency}`,
+      `    assets:crypto:${row.sentCurrency.toLowerCase()}  ${(-row.sentAmount).toFixed(6)} ${row.sentCurrency} @@ ${row.costBasis.toFixed(2)} ${currency}`,
+      `    income:capital-gains  ${(row.costBasis - row.proceeds).toFixed(2)} ${currency}`,
+      `    ; fees: ${row.feeValue.toFixed(4)} ${currency}`,
+      '',
+    ].join('\n')).join('\n');
+  }
+}
+
+class BeancountExporter implements TransactionExporter {
+  readonly format = 'beancount';
+  readonly description = 'Beancount ledger';
+  readonly extension = 'beancount';
+
+  render(rows: ExportRow[], currency: string): string {
+    if (rows.length === 0) {
+      return '';
+    }
+
+    // Beancount rejects postings to accounts that were never opened
+    const accounts = new Set(['Income:Crypto:CapitalGains']);
+    for (const row of rows) {
+      accounts.add(`Assets:Crypto:${row.sentCurrency}`);
+      accounts.add(`Assets:Crypto:${row.receivedCurrency}`);
+    }
+    const openDate = isoDate(rows[0].date);
+    const opens = Array.from(accounts).map(account => `${openDate} open ${account}`).join('\n');
+
+    return opens + '\n\n' + rows.map(row => [
+      `${isoDate(row.date)} * "Skip Protocol" "Swap ${row.sentCurrency} to ${row.receivedCurrency}"`,
+      `  id: "${row.id}"`,
+      `  txhash: "${row.txHash}"`,
+      `  fees: "${row.feeValue.toFixed(4)} ${currency}"`,
+      `  Assets:Crypto:${row.receivedCurrency}  ${row.receivedAmount.toFixed(6)} ${row.receivedCurrency} @@ ${row.proceeds.toFixed(2)} ${currency}`,
+      `  Assets:Crypto:${row.sentCurrency}  ${(-row.sentAmount).toFixed(6)} ${row.sentCurrency} @@ ${row.costBasis.toFixed(2)} ${currency}`,
+      `  Income:Crypto:CapitalGains  ${(row.costBasis - row.proceeds).toFixed(2)} ${currency}`,
+      '',
+    ].join('\n')).join('\n');
+  }
+}
+
+const EXPORTERS: Map<string, TransactionExporter> = new Map(
+  [
+    new DefaultExporter(),
+    new KoinlyExporter(),
+    new CoinTrackerExporter(),
+    new CoinLedgerExporter(),
+    new HledgerExporter(),
+    new BeancountExporter(),
+  ].map(exporter => [exporter.format, exporter])
+);
+
+export function getExporter(format: string): TransactionExporter {
+  const exporter = EXPORTERS.get(format.toLowerCase());
+  if (!exporter) {
+    throw new Error(`Unknown export format "${format}" (available: ${Array.from(EXPORTERS.keys()).join(', ')})`);
+  }
+  return exporter;
+}
+
+export function listExporters(): TransactionExporter[] {
+  return Array.from(EXPORTERS.values());
+}
+
+// Reads `--format`, `--from`, `--to` (YYYY-MM-DD, --to covers the whole day) and `--currency`
+export function parseExportArgs(args: string[]): { format: string; options: ExportOptions } {
+  return parseExportFlags(parseFlags(args).flags);
+}
+
+export function parseExportFlags(flags: Record<string, string>): { format: string; options: ExportOptions } {
+  const format = getExporter(flags.format || 'default').format;
+  const options: ExportOptions = {
+    from: flags.from ? parseDateFlag(flags.from, false) : undefined,
+    to: flags.to ? parseDateFlag(flags.to, true) : undefined,
+    currency: (flags.currency || config.export.currency).toUpperCase(),
+  };
+
+  if (options.from && options.to && options.from > options.to) {
+    throw new UsageError('--from must not be after --to');
+  }
+
+  return { format, options };
+}
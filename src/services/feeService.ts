@@ -0,0 +1,190 @@
+import { StargateClient } from '@cosmjs/stargate';
+import { decodeTxRaw } from '@cosmjs/proto-signing';
+import { cosmosRpcUrls, evmChains, swapJobs } from '../config';
+import { ChainTransaction, RouteFee } from '../types';
+import { logger } from '../utils/logger';
+import { EvmClient } from './evmClient';
+import { PriceService } from './priceService';
+
+export interface SwapFees {
+  chainTransactions: ChainTransaction[];
+  routeFees: RouteFee[];
+  networkFeesUSD: number;
+  routeFeesUSD: number;
+  totalUSD: number;
+}
+
+// Operation keys in a Skip route whose payload may carry a bridge fee
+const BRIDGE_OPERATION_KEYS = ['transfer', 'axelarTransfer', 'hyperlaneTransfer', 'opInitTransfer', 'goFastTransfer', 'eurekaTransfer'];
+
+// Route fees Skip's amountOut does not account for. Bridge fees are taken out of the
+// transferred amount, so only the relayer fees, paid on top of the input, cost extra.
+export function feesOnTopOfAmountOut(fees: RouteFee[]): RouteFee[] {
+  return fees.filter(fee => fee.type === 'relayer');
+}
+
+/**
+ * Looks up what a swap actually cost: the network fee of every transaction we
+ * signed (read back from the chain) plus the bridge and relayer fees Skip
+ * reported on the route, all converted to USD at swap time.
+ */
+export class FeeService {
+  private priceService: PriceService;
+  private cosmosClients: Map<string, StargateClient> = new Map();
+  private evmClients: Map<string, EvmClient> = new Map();
+
+  constructor(priceService: PriceService) {
+    this.priceService = priceService;
+  }
+
+  async getSwapFees(route: any, chainTransactions: ChainTransaction[]): Promise<SwapFees> {
+    const annotated = await Promise.all(chainTransactions.map(tx => this.annotateChainTransaction(tx)));
+    const routeFees = await this.getRouteFees(route);
+
+    const networkFeesUSD = annotated.reduce((sum, tx) => sum + (tx.feeUSD || 0), 0);
+    const routeFeesUSD = routeFees.reduce((sum, fee) => sum + fee.usd, 0);
+
+    logger.info('Swap fees recorded', {
+      networkFeesUSD: networkFeesUSD.toFixed(4),
+      routeFeesUSD: routeFeesUSD.toFixed(4),
+      chainTransactions: annotated.length,
+      routeFees: routeFees.length,
+    });
+
+    return {
+      chainTransactions: annotated,
+      routeFees,
+      networkFeesUSD,
+      routeFeesUSD,
+      totalUSD: networkFeesUSD + routeFeesUSD,
+    };
+  }
+
+  private async annotateChainTransaction(tx: ChainTransaction): Promise<ChainTransaction> {
+    try {
+      const evmChain = evmChains.find(chain => chain.chainId === tx.chainId);
+      if (evmChain) {
+        const feeWei = await this.getEvmClient(evmChain.chainId, evmChain.rpcUrl).getTransactionFee(tx.txHash);
+        if (feeWei === null) {
+          logger.warn(`No receipt yet for ${tx.chainId}:${tx.txHash}, fee unknown`);
+          return tx;
+        }
+
+        return {
+          ...tx,
+          feeAmount: feeWei,
+          feeDenom: 'wei',
+          feeUSD: await this.priceService.getGasPriceInUSD(feeWei, tx.chainId),
+        };
+      }
+
+      const rpcUrl = this.getCosmosRpcUrl(tx.chainId);
+      if (!rpcUrl) {
+        logger.warn(`No RPC configured for ${tx.chainId}, cannot look up fee for ${tx.txHash}`);
+        return tx;
+      }
+
+      const client = await this.getCosmosClient(tx.chainId, rpcUrl);
+      const indexed = await client.getTx(tx.txHash);
+      if (!indexed) {
+        logger.warn(`Transaction ${tx.chainId}:${tx.txHash} not found, fee unknown`);
+        return tx;
+      }
+
+      const fee = decodeTxRaw(indexed.tx).authInfo.fee?.amount || [];
+      if (fee.length === 0) {
+        return { ...tx, feeAmount: '0', feeUSD: 0 };
+      }
+
+      // Cosmos txs pay a single fee coin in practice; price it as the chain's native fee token
+      const [coin] = fee;
+      return {
+        ...tx,
+        feeAmount: coin.amount,
+        feeDenom: coin.denom,
+        feeUSD: await this.priceService.getGasPriceInUSD(coin.amount, tx.chainId),
+      };
+    } catch (error: any) {
+      logger.error(`Failed to look up fee for ${tx.chainId}:${tx.txHash}: ${error.message || error}`);
+      return tx;
+    }
+  }
+
+  // Bridge and relayer fees Skip reported on a route, tagged with their operation where known
+  async getRouteFees(route: any): Promise<RouteFee[]> {
+    const fees: RouteFee[] = [];
+
+    for (const fee of route?.estimatedFees || []) {
+      fees.push({
+        ...await this.toRouteFee('relayer', fee.bridgeID || fee.feeType, fee.chainID, fee.amount, fee.originAsset, fee.usdAmount),
+        operationIndex: fee.operationIndex,
+      });
+    }
+
+    for (const [index, operation] of (route?.operations || []).entries()) {
+      for (const key of BRIDGE_OPERATION_KEYS) {
+        const transfer = operation[key];
+        if (!transfer || !transfer.feeAmount || transfer.feeAmount === '0') {
+          continue;
+        }
+
+        fees.push({
+          ...await this.toRouteFee(
+            'bridge',
+            transfer.bridgeID || key,
+            transfer.fromChainID || transfer.chainID || '',
+            transfer.feeAmount,
+            transfer.feeAsset,
+            transfer.usdFeeAmount
+          ),
+          operationIndex: index,
+        });
+      }
+    }
+
+    return fees;
+  }
+
+  private async toRouteFee(
+    type: RouteFee['type'],
+    provider: string,
+    chainId: string,
+    amount: string,
+    asset: any,
+    usdAmount?: string
+  ): Promise<RouteFee> {
+    const symbol = asset?.recommendedSymbol || asset?.symbol || asset?.denom || 'UNKNOWN';
+    const decimals = asset?.decimals ?? 6;
+
+    let usd = usdAmount ? parseFloat(usdAmount) : NaN;
+    if (isNaN(usd)) {
+      // Skip didn't price it; fall back to our own price feed
+      const price = await this.priceService.getPrice(symbol.toLowerCase());
+      usd = price ? (parseFloat(amount) / Math.pow(10, decimals)) * price.price : 0;
+    }
+
+    return { type, provider, chainId, amount, symbol, decimals, usd };
+  }
+
+  private getCosmosRpcUrl(chainId: string): string | undefined {
+    return cosmosRpcUrls[chainId] || swapJobs.find(job => job.sourceChainId === chainId)?.sourceRpcUrl;
+  }
+
+  private async getCosmosClient(chainId: string, rpcUrl: string): Promise<StargateClient> {
+    let client = this.cosmosClients.get(chainId);
+    if (!client) {
+      client = await StargateClient.connect(rpcUrl);
+      this.cosmosClients.set(chainId, client);
+    }
+    return client;
+  }
+
+  private getEvmClient(chainId: string, rpcUrl: string): EvmClient {
+    let client = this.evmClients.get(chainId);
+    if (!client) {
+      client = new EvmClient(rpcUrl);
+      this.evmClients.set(chainId, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,45 @@
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Daily USD exchange rates for reporting in other fiat currencies. Rates come
+ * from a Frankfurter-compatible API (ECB reference rates), which returns the
+ * last published rate for weekends and holidays.
+ */
+export class FxRateService {
+  private apiUrl: string;
+  private cache: Map<string, number> = new Map();
+
+  constructor(apiUrl: string = config.export.fxApiUrl) {
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+  }
+
+  // Units of `currency` per 1 USD on the given day
+  async getUsdRate(currency: string, date: Date): Promise<number> {
+    const code = currency.toUpperCase();
+    if (code === 'USD') {
+      return 1;
+    }
+
+    const day = date.toISOString().split('T')[0];
+    const key = `${code}:${day}`;
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await axios.get(`${this.apiUrl}/${day}`, {
+      params: { from: 'USD', to: code },
+    });
+
+    const rate = response.data?.rates?.[code];
+    if (!rate) {
+      throw new Error(`No USD/${code} exchange rate available for ${day}`);
+    }
+
+    logger.debug(`USD/${code} rate for ${day}: ${rate}`);
+    this.cache.set(key, rate);
+    return rate;
+  }
+}
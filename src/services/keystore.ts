@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { Bip39, EnglishMnemonic, Slip10, Slip10Curve } from '@cosmjs/crypto';
+import { makeCosmoshubPath, DirectSecp256k1Wallet } from '@cosmjs/proto-signing';
+import { clearWalletSecrets, walletConfig } from '../config';
+import { KeystoreFile, KeystoreSecretType } from '../types';
+import { promptSecret } from '../utils/prompt';
+import { logger } from '../utils/logger';
+
+// 2^17 × 8 × 128 bytes = 128 MiB of memory per unlock, about half a second
+const SCRYPT_PARAMS = { n: 2 ** 17, r: 8, p: 1 };
+const SCRYPT_MAX_N = 2 ** 20;
+const KEY_LENGTH = 32;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Wrong passphrase, or a keystore that is malformed or was modified
+export class KeystoreError extends Error {}
+
+function scrypt(passphrase: string, salt: Buffer, params: { n: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_LENGTH, {
+      N: params.n,
+      r: params.r,
+      p: params.p,
+      maxmem: 256 * params.n * params.r,
+    }, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+}
+
+// Header fields the GCM tag covers, so the type and address can't be swapped out
+function additionalData(keystore: Pick<KeystoreFile, 'version' | 'type' | 'address'>): Buffer {
+  return Buffer.from(`${keystore.version}:${keystore.type}:${keystore.address}`, 'utf-8');
+}
+
+export async function encryptKeystore(
+  secret: Buffer,
+  type: KeystoreSecretType,
+  address: string,
+  passphrase: string
+): Promise<KeystoreFile> {
+  const salt = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const key = await scrypt(passphrase, salt, SCRYPT_PARAMS);
+
+  try {
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(additionalData({ version: 1, type, address }));
+    const ciphertext = Buffer.concat([cipher.update(secret), cipher.final()]);
+
+    return {
+      version: 1,
+      type,
+      address,
+      kdf: { name: 'scrypt', ...SCRYPT_PARAMS, salt: salt.toString('hex') },
+      cipher: { name: 'aes-256-gcm', iv: iv.toString('hex'), tag: cipher.getAuthTag().toString('hex') },
+      ciphertext: ciphertext.toString('hex'),
+      createdAt: new Date().toISOString(),
+    };
+  } finally {
+    key.fill(0);
+  }
+}
+
+// The decrypted secret; callers zero the buffer once they are done with it
+export async function decryptKeystore(keystore: KeystoreFile, passphrase: string): Promise<Buffer> {
+  const key = await scrypt(passphrase, Buffer.from(keystore.kdf.salt, 'hex'), keystore.kdf);
+
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(keystore.cipher.iv, 'hex'));
+    decipher.setAAD(additionalData(keystore));
+    decipher.setAuthTag(Buffer.from(keystore.cipher.tag, 'hex'));
+    return Buffer.concat([decipher.update(Buffer.from(keystore.ciphertext, 'hex')), decipher.final()]);
+  } catch {
+    throw new KeystoreError('Wrong passphrase, or the keystore file was modified');
+  } finally {
+    key.fill(0);
+  }
+}
+
+export async function readKeystore(filePath: string): Promise<KeystoreFile> {
+  let keystore: KeystoreFile;
+  try {
+    keystore = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      throw new KeystoreError(`Keystore ${filePath} does not exist; create one with \`keystore create\` or \`keystore import\``);
+    }
+    throw new KeystoreError(`Cannot read keystore ${filePath}: ${error.message || error}`);
+  }
+
+  const { kdf, cipher } = keystore;
+  const valid = keystore.version === 1
+    && (keystore.type === 'mnemonic' || keystore.type === 'privateKey')
+    && kdf?.name === 'scrypt' && kdf.n >= 2 && kdf.n <= SCRYPT_MAX_N && kdf.r >= 1 && kdf.p >= 1
+    && cipher?.name === 'aes-256-gcm' && typeof keystore.ciphertext === 'string';
+  if (!valid) {
+    throw new KeystoreError(`${filePath} is not a supported keystore (version 1, scrypt, aes-256-gcm)`);
+  }
+  return keystore;
+}
+
+// Writes through a temporary file so an interrupted write never leaves a broken keystore
+export async function writeKeystore(filePath: string, keystore: KeystoreFile, overwrite: boolean): Promise<void> {
+  if (!overwrite) {
+    const exists = await fs.access(filePath).then(() => true, () => false);
+    if (exists) {
+      throw new KeystoreError(`${filePath} already exists`);
+    }
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, `${JSON.stringify(keystore, null, 2)}\n`, { encoding: 'utf-8', mode: 0o600 });
+  await fs.rename(tempPath, filePath);
+}
+
+// A pasted secret: 64 hex characters are a private key, anything else must be a valid mnemonic
+export function parseSecret(input: string): { type: KeystoreSecretType; secret: Buffer } {
+  const value = input.trim();
+  if (/^(0x)?[0-9a-fA-F]{64}$/.test(value)) {
+    return { type: 'privateKey', secret: Buffer.from(value.replace(/^0x/, ''), 'hex') };
+  }
+
+  const words = value.split(/\s+/).join(' ');
+  try {
+    new EnglishMnemonic(words);
+  } catch (error: any) {
+    throw new KeystoreError(`Not a 64-character hex private key or a valid mnemonic: ${error.message || error}`);
+  }
+  return { type: 'mnemonic', secret: Buffer.from(words, 'utf-8') };
+}
+
+// The secp256k1 key for a mnemonic or raw private key, on the default Cosmos HD path (m/44'/118'/0'/0/0)
+export async function deriveSigningKey(type: KeystoreSecretType, secret: Buffer): Promise<Uint8Array> {
+  if (type === 'privateKey') {
+    if (secret.length !== 32) {
+      throw new KeystoreError(`Private key must be 32 bytes, got ${secret.length}`);
+    }
+    return new Uint8Array(secret);
+  }
+
+  const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(secret.toString('utf-8').trim()));
+  try {
+    return Slip10.derivePath(Slip10Curve.Secp256k1, seed, makeCosmoshubPath(0)).privkey;
+  } finally {
+    seed.fill(0);
+  }
+}
+
+export async function addressForKey(signingKey: Uint8Array, prefix: string = 'kyve'): Promise<string> {
+  // fromKey keeps the array it is given, so hand it a copy
+  const wallet = await DirectSecp256k1Wallet.fromKey(new Uint8Array(signingKey), prefix);
+  const [account] = await wallet.getAccounts();
+  return account.address;
+}
+
+// KEYSTORE_PASSWORD, then KEYSTORE_PASSWORD_FILE, then a terminal prompt
+export async function getKeystorePassphrase(prompt: string = 'Keystore passphrase: '): Promise<string> {
+  if (walletConfig.keystorePassword) {
+    return walletConfig.keystorePassword;
+  }
+  if (walletConfig.keystorePasswordFile) {
+    return readPassphraseFile(walletConfig.keystorePasswordFile);
+  }
+  return promptSecret(prompt);
+}
+
+export async function readPassphraseFile(filePath: string): Promise<string> {
+  const passphrase = (await fs.readFile(filePath, 'utf-8')).replace(/\r?\n$/, '');
+  if (!passphrase) {
+    throw new KeystoreError(`Passphrase file ${filePath} is empty`);
+  }
+  return passphrase;
+}
+
+/**
+ * The wallet's signing key, from the keystore or from MNEMONIC/PRIVATE_KEY.
+ * Every plaintext copy (decrypted buffer, seed, config values and env vars)
+ * is dropped or zeroed before this returns; only the derived key is kept.
+ */
+export async function loadSigningKey(): Promise<Uint8Array> {
+  let type: KeystoreSecretType;
+  let secret: Buffer;
+
+  if (walletConfig.keystoreFile) {
+    const keystore = await readKeystore(walletConfig.keystoreFile);
+    secret = await decryptKeystore(keystore, await getKeystorePassphrase());
+    type = keystore.type;
+    logger.info(`Keystore ${walletConfig.keystoreFile} unlocked`);
+  } else if (walletConfig.mnemonic) {
+    secret = Buffer.from(walletConfig.mnemonic, 'utf-8');
+    type = 'mnemonic';
+  } else if (walletConfig.privateKey) {
+    secret = Buffer.from(walletConfig.privateKey.replace(/^0x/, ''), 'hex');
+    type = 'privateKey';
+  } else {
+    throw new Error('No wallet credentials provided');
+  }
+
+  try {
+    return await deriveSigningKey(type, secret);
+  } finally {
+    secret.fill(0);
+    clearWalletSecrets();
+  }
+}
@@ -0,0 +1,258 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { LotDisposal, LotMethod, LotSource, RealizedGain, SwapTransaction, TaxLot } from '../types';
+import { logger } from '../utils/logger';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const LOTS_FILE = path.join(DATA_DIR, 'lots.json');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Held for more than a year counts as long-term
+const LONG_TERM_DAYS = 365;
+// Remaining quantities below this are float dust and treated as fully consumed
+const DUST = 1e-9;
+
+const LOT_SOURCES: LotSource[] = ['staking_reward', 'transfer_in', 'manual_import'];
+
+export interface YearlyGains {
+  year: number;
+  swaps: number;
+  proceedsUSD: number;
+  costBasisUSD: number;
+  shortTermGainUSD: number;
+  longTermGainUSD: number;
+  totalGainUSD: number;
+}
+
+/**
+ * Ledger of acquired tax lots. Acquisitions add lots with their USD value at
+ * acquisition time; each swap consumes lots in FIFO, LIFO or HIFO order and
+ * gets back the realized gain/loss and holding period of what it sold.
+ */
+export class LotLedger {
+  private lots: TaxLot[] = [];
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadLots();
+  }
+
+  async ready(): Promise<void> {
+    await this.loaded;
+  }
+
+  private async loadLots(): Promise<void> {
+    try {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+
+      const data = await fs.readFile(LOTS_FILE, 'utf-8');
+      this.lots = JSON.parse(data);
+      logger.info(`Loaded ${this.lots.length} tax lots from file`);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.info('No existing tax lot file found, starting fresh');
+        this.lots = [];
+      } else {
+        logger.error(`Failed to load tax lots: ${error.message || error}`);
+      }
+    }
+  }
+
+  private async saveLots(): Promise<void> {
+    try {
+      await fs.writeFile(LOTS_FILE, JSON.stringify(this.lots, null, 2), 'utf-8');
+      logger.debug('Tax lots saved to file');
+    } catch (error: any) {
+      logger.error(`Failed to save tax lots: ${error.message || error}`);
+    }
+  }
+
+  async addLot(lot: Omit<TaxLot, 'id' | 'remaining'>): Promise<TaxLot> {
+    if (!(lot.quantity > 0)) {
+      throw new Error(`Lot quantity must be positive, got ${lot.quantity}`);
+    }
+    if (!(lot.costBasisUSD >= 0)) {
+      throw new Error(`Lot USD value must not be negative, got ${lot.costBasisUSD}`);
+    }
+    if (!LOT_SOURCES.includes(lot.source)) {
+      throw new Error(`Unknown lot source "${lot.source}" (expected ${LOT_SOURCES.join(', ')})`);
+    }
+    if (isNaN(new Date(lot.acquiredAt).getTime())) {
+      throw new Error(`Invalid acquisition date: ${lot.acquiredAt}`);
+    }
+
+    const created: TaxLot = {
+      ...lot,
+      id: uuidv4(),
+      asset: lot.asset.toUpperCase(),
+      acquiredAt: new Date(lot.acquiredAt).toISOString(),
+      remaining: lot.quantity,
+    };
+
+    this.lots.push(created);
+    await this.saveLots();
+    logger.info(`Tax lot recorded: ${created.quantity} ${created.asset} ($${created.costBasisUSD.toFixed(2)}, ${created.source})`);
+    return created;
+  }
+
+  // Imports acquisitions from a CSV with the header: date,asset,quantity,usd_value[,source][,reference]
+  async importFromCSV(filePath: string): Promise<TaxLot[]> {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const [headerLine, ...lines] = content.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (!headerLine) {
+      throw new Error(`${filePath} is empty`);
+    }
+
+    const header = headerLine.split(',').map(column => column.trim().toLowerCase());
+    for (const required of ['date', 'asset', 'quantity', 'usd_value']) {
+      if (!header.includes(required)) {
+        throw new Error(`${filePath} is missing the "${required}" column`);
+      }
+    }
+
+    const imported: TaxLot[] = [];
+    for (const [index, line] of lines.entries()) {
+      const values = line.split(',').map(value => value.trim());
+      const row = Object.fromEntries(header.map((column, i) => [column, values[i] || '']));
+      if (!row.asset || !row.date) {
+        throw new Error(`${filePath} line ${index + 2}: date and asset are required`);
+      }
+
+      imported.push(await this.addLot({
+        asset: row.asset,
+        source: (row.source || 'manual_import') as LotSource,
+        acquiredAt: row.date,
+        quantity: parseFloat(row.quantity),
+        costBasisUSD: parseFloat(row.usd_value),
+        reference: row.reference || path.basename(filePath),
+      }));
+    }
+
+    return imported;
+  }
+
+  // Draws `quantity` of `asset` from open lots acquired before `disposedAt`. Any quantity
+  // not covered by a lot is reported as unmatched and carries zero cost basis.
+  async consume(
+    asset: string,
+    quantity: number,
+    proceedsUSD: number,
+    disposedAt: string,
+    method: LotMethod
+  ): Promise<RealizedGain> {
+    const disposedTime = new Date(disposedAt).getTime();
+    const candidates = this.orderLots(
+      this.getOpenLots(asset).filter(lot => new Date(lot.acquiredAt).getTime() <= disposedTime),
+      method
+    );
+
+    const disposals: LotDisposal[] = [];
+    let outstanding = quantity;
+
+    for (const lot of candidates) {
+      if (outstanding <= DUST) {
+        break;
+      }
+
+      const taken = Math.min(lot.remaining, outstanding);
+      const costBasisUSD = taken * (lot.costBasisUSD / lot.quantity);
+      const lotProceedsUSD = proceedsUSD * (taken / quantity);
+      const holdingDays = Math.floor((disposedTime - new Date(lot.acquiredAt).getTime()) / DAY_MS);
+
+      disposals.push({
+        lotId: lot.id,
+        acquiredAt: lot.acquiredAt,
+        quantity: taken,
+        costBasisUSD,
+        proceedsUSD: lotProceedsUSD,
+        gainUSD: lotProceedsUSD - costBasisUSD,
+        holdingDays,
+        term: holdingDays > LONG_TERM_DAYS ? 'long' : 'short',
+      });
+
+      lot.remaining = lot.remaining - taken < DUST ? 0 : lot.remaining - taken;
+      outstanding -= taken;
+    }
+
+    const unmatchedQuantity = outstanding > DUST ? outstanding : 0;
+    if (unmatchedQuantity > 0) {
+      logger.warn(`No tax lots cover ${unmatchedQuantity} ${asset.toUpperCase()}; recording it at zero cost basis`);
+    }
+
+    await this.saveLots();
+
+    const costBasisUSD = disposals.reduce((sum, disposal) => sum + disposal.costBasisUSD, 0);
+    // Unmatched quantity has an unknown acquisition date, so it can't count as long-term
+    const terms = new Set(disposals.map(disposal => disposal.term));
+    if (unmatchedQuantity > 0) {
+      terms.add('short');
+    }
+
+    return {
+      method,
+      quantity,
+      proceedsUSD,
+      costBasisUSD,
+      gainUSD: proceedsUSD - costBasisUSD,
+      holdingPeriod: terms.size > 1 ? 'mixed' : terms.has('long') ? 'long' : 'short',
+      disposals,
+      unmatchedQuantity,
+    };
+  }
+
+  private orderLots(lots: TaxLot[], method: LotMethod): TaxLot[] {
+    const acquired = (lot: TaxLot) => new Date(lot.acquiredAt).getTime();
+    const unitCost = (lot: TaxLot) => lot.costBasisUSD / lot.quantity;
+
+    switch (method) {
+      case 'fifo':
+        return [...lots].sort((a, b) => acquired(a) - acquired(b));
+      case 'lifo':
+        return [...lots].sort((a, b) => acquired(b) - acquired(a));
+      case 'hifo':
+        return [...lots].sort((a, b) => unitCost(b) - unitCost(a) || acquired(a) - acquired(b));
+    }
+  }
+
+  getOpenLots(asset?: string): TaxLot[] {
+    return this.lots.filter(lot =>
+      lot.remaining > 0 && (!asset || lot.asset === asset.toUpperCase())
+    );
+  }
+
+  // Realized gains per calendar year of the swap, split by holding period
+  getYearlyGains(transactions: SwapTransaction[]): YearlyGains[] {
+    const years = new Map<number, YearlyGains>();
+
+    for (const tx of transactions) {
+      if (!tx.realized) continue;
+
+      const year = new Date(tx.timestamp).getUTCFullYear();
+      const summary = years.get(year) || {
+        year,
+        swaps: 0,
+        proceedsUSD: 0,
+        costBasisUSD: 0,
+        shortTermGainUSD: 0,
+        longTermGainUSD: 0,
+        totalGainUSD: 0,
+      };
+
+      summary.swaps++;
+      summary.proceedsUSD += tx.realized.proceedsUSD;
+      summary.costBasisUSD += tx.realized.costBasisUSD;
+      summary.totalGainUSD += tx.realized.gainUSD;
+
+      const longTermGain = tx.realized.disposals
+        .filter(disposal => disposal.term === 'long')
+        .reduce((sum, disposal) => sum + disposal.gainUSD, 0);
+      summary.longTermGainUSD += longTermGain;
+      summary.shortTermGainUSD += tx.realized.gainUSD - longTermGain;
+
+      years.set(year, summary);
+    }
+
+    return Array.from(years.values()).sort((a, b) => a.year - b.year);
+  }
+}
@@ -0,0 +1,211 @@
+import http from 'http';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { logger } from '../utils/logger';
+
+const PREFIX = 'kyve_swapper_';
+
+// Why executeSwap returned without swapping; used as the `reason` label on skips
+export type SwapSkipReason =
+  | 'already_running'
+  | 'in_flight'
+  | 'unresolved_pending'
+  | 'no_balance'
+  | 'insufficient_balance'
+  | 'no_price'
+  | 'below_minimum'
+  | 'above_maximum'
+  | 'rate_below_minimum'
+  | 'price_deviation'
+  | 'route_policy';
+
+/**
+ * Prometheus metrics for swaps, prices and balances. Services record into the
+ * shared `metrics` instance; MetricsServer exposes them on /metrics.
+ */
+export class SwapMetrics {
+  readonly registry = new Registry();
+
+  private swapAttempts = new Counter({
+    name: `${PREFIX}swap_attempts_total`,
+    help: 'Swap executions started, including ones that were skipped',
+    labelNames: ['job'],
+    registers: [this.registry],
+  });
+
+  private swapSuccesses = new Counter({
+    name: `${PREFIX}swap_successes_total`,
+    help: 'Swaps that completed',
+    labelNames: ['job'],
+    registers: [this.registry],
+  });
+
+  private swapFailures = new Counter({
+    name: `${PREFIX}swap_failures_total`,
+    help: 'Swaps that failed or got stuck',
+    labelNames: ['job'],
+    registers: [this.registry],
+  });
+
+  private swapSkips = new Counter({
+    name: `${PREFIX}swap_skips_total`,
+    help: 'Swap executions that returned without swapping',
+    labelNames: ['job', 'reason'],
+    registers: [this.registry],
+  });
+
+  private swapDuration = new Histogram({
+    name: `${PREFIX}swap_duration_seconds`,
+    help: 'Time from starting a swap until its outcome was known',
+    labelNames: ['job', 'status'],
+    buckets: [5, 15, 30, 60, 120, 300, 600, 1200, 3600, 7200],
+    registers: [this.registry],
+  });
+
+  private realizedRate = new Histogram({
+    name: `${PREFIX}swap_realized_rate`,
+    help: 'Destination units received per source unit on completed swaps',
+    labelNames: ['job'],
+    buckets: [0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 100],
+    registers: [this.registry],
+  });
+
+  private lastSuccess = new Gauge({
+    name: `${PREFIX}last_successful_swap_timestamp_seconds`,
+    help: 'Unix time of the last completed swap',
+    labelNames: ['job'],
+    registers: [this.registry],
+  });
+
+  private consecutiveFailures = new Gauge({
+    name: `${PREFIX}consecutive_failures`,
+    help: 'Failed swaps since the last completed one',
+    labelNames: ['job'],
+    registers: [this.registry],
+  });
+
+  private balance = new Gauge({
+    name: `${PREFIX}balance`,
+    help: 'Wallet balance in whole token units',
+    labelNames: ['asset', 'chain'],
+    registers: [this.registry],
+  });
+
+  private oraclePrice = new Gauge({
+    name: `${PREFIX}oracle_price_usd`,
+    help: 'Last aggregated USD price',
+    labelNames: ['symbol'],
+    registers: [this.registry],
+  });
+
+  private oracleSources = new Gauge({
+    name: `${PREFIX}oracle_price_sources`,
+    help: 'Number of sources behind the last aggregated price',
+    labelNames: ['symbol'],
+    registers: [this.registry],
+  });
+
+  constructor() {
+    collectDefaultMetrics({ register: this.registry, prefix: PREFIX });
+  }
+
+  // Returns a callback that records the outcome once the swap has one
+  swapStarted(job: string): (status: 'completed' | 'failed' | 'stuck') => void {
+    this.swapAttempts.inc({ job });
+    const endTimer = this.swapDuration.startTimer({ job });
+    return status => endTimer({ status });
+  }
+
+  swapSkipped(job: string, reason: SwapSkipReason): void {
+    this.swapSkips.inc({ job, reason });
+  }
+
+  swapCompleted(job: string, rate: number): void {
+    this.swapSuccesses.inc({ job });
+    this.consecutiveFailures.set({ job }, 0);
+    this.lastSuccess.set({ job }, Date.now() / 1000);
+    if (rate > 0) {
+      this.realizedRate.observe({ job }, rate);
+    }
+  }
+
+  swapFailed(job: string): void {
+    this.swapFailures.inc({ job });
+    this.consecutiveFailures.inc({ job });
+  }
+
+  setBalance(asset: string, chain: string, amount: number): void {
+    this.balance.set({ asset, chain }, amount);
+  }
+
+  setOraclePrice(symbol: string, price: number, sourceCount: number): void {
+    this.oraclePrice.set({ symbol: symbol.toUpperCase() }, price);
+    this.oracleSources.set({ symbol: symbol.toUpperCase() }, sourceCount);
+  }
+}
+
+export const metrics = new SwapMetrics();
+
+/**
+ * Serves the registry on GET /metrics. `onScrape` runs before each scrape
+ * (at most once per `refreshIntervalMs`) to refresh values that are only
+ * read on demand, like balances.
+ */
+export class MetricsServer {
+  private server: http.Server | null = null;
+  private lastRefresh = 0;
+
+  constructor(
+    private host: string,
+    private port: number,
+    private onScrape?: () => Promise<void>,
+    private refreshIntervalMs: number = 60 * 1000
+  ) {}
+
+  async start(): Promise<void> {
+    this.server = http.createServer(async (req, res) => {
+      if (req.method !== 'GET' || (req.url || '').split('?')[0] !== '/metrics') {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found\n');
+        return;
+      }
+
+      try {
+        await this.refresh();
+        const body = await metrics.registry.metrics();
+        res.writeHead(200, { 'Content-Type': metrics.registry.contentType });
+        res.end(body);
+      } catch (error: any) {
+        logger.error(`Failed to render metrics: ${error.message || error}`);
+        res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end('Failed to render metrics\n');
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => resolve());
+    });
+
+    logger.info(`Metrics available at http://${this.host}:${this.port}/metrics`);
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = null;
+  }
+
+  private async refresh(): Promise<void> {
+    if (!this.onScrape || Date.now() - this.lastRefresh < this.refreshIntervalMs) {
+      return;
+    }
+
+    this.lastRefresh = Date.now();
+    try {
+      await this.onScrape();
+    } catch (error: any) {
+      // Serve the last known values rather than failing the scrape
+      logger.warn(`Metrics refresh failed: ${error.message || error}`);
+    }
+  }
+}
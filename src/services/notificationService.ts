@@ -1,122 +1,210 @@
-import axios from 'axios';
 import { notificationConfig } from '../config';
-import { SwapTransaction } from '../types';
+import { NotificationChannel, NotificationConfig, NotificationType, SwapTransaction } from '../types';
 import { logger } from '../utils/logger';
+import {
+  DiscordNotifier,
+  EmailNotifier,
+  formatNotification,
+  meetsLevel,
+  Notification,
+  Notifier,
+  NtfyNotifier,
+  SlackNotifier,
+  TelegramNotifier,
+  WebhookNotifier,
+} from './notifiers';
+import {
+  NotificationEvent,
+  renderTemplate,
+  resolveTemplates,
+  TemplateVars,
+  transactionVars,
+  unknownTemplateNames,
+} from './notificationTemplates';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type NotificationSettings = Pick<NotificationConfig, 'channels' | 'dedupWindowMinutes' | 'templates'>;
+
+// An alert sent within the dedup window, with the repeats suppressed since
+interface RecentAlert {
+  type: NotificationType;
+  message: string;
+  repeats: number;
+}
+
+// Minutes since midnight for 'HH:MM'
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Whether `now` (local time) falls in an 'HH:MM-HH:MM' range, which may wrap past midnight
+export function inQuietHours(range: string, now: Date = new Date()): boolean {
+  const [start, end] = range.split('-').map(minutesOfDay);
+  const current = now.getHours() * 60 + now.getMinutes();
+  return start <= end ? current >= start && current < end : current >= start || current < end;
+}
 
 export class NotificationService {
-  async sendNotification(
-    type: 'success' | 'error' | 'warning',
-    message: string,
-    transaction?: SwapTransaction
-  ): Promise<void> {
-    const promises = [];
+  private notifiers: Notifier[];
+  private settings: NotificationSettings;
+  private templates: Record<NotificationEvent, string>;
+  private recentAlerts: Map<string, RecentAlert> = new Map();
+  private sentTimes: Map<NotificationChannel, number[]> = new Map();
 
-    if (notificationConfig.discordWebhook) {
-      promises.push(this.sendDiscordNotification(type, message, transaction));
+  constructor(notifiers?: Notifier[], settings: NotificationSettings = notificationConfig) {
+    this.notifiers = notifiers || NotificationService.createConfiguredNotifiers();
+    this.settings = settings;
+
+    const unknown = unknownTemplateNames(settings.templates);
+    if (unknown.length > 0) {
+      logger.warn(`Ignoring unknown notification template(s): ${unknown.join(', ')}`);
     }
+    this.templates = resolveTemplates(settings.templates);
+  }
+
+  private static createConfiguredNotifiers(): Notifier[] {
+    const notifiers: Notifier[] = [];
 
+    if (notificationConfig.discordWebhook) {
+      notifiers.push(new DiscordNotifier(notificationConfig.discordWebhook));
+    }
     if (notificationConfig.telegramBotToken && notificationConfig.telegramChatId) {
-      promises.push(this.sendTelegramNotification(type, message, transaction));
+      notifiers.push(new TelegramNotifier(
+        notificationConfig.telegramBotToken,
+        notificationConfig.telegramChatId,
+        notificationConfig.telegramApiUrl
+      ));
+    }
+    if (notificationConfig.slackWebhook) {
+      notifiers.push(new SlackNotifier(notificationConfig.slackWebhook));
+    }
+    if (notificationConfig.webhookUrl) {
+      notifiers.push(new WebhookNotifier(notificationConfig.webhookUrl, notificationConfig.webhookSecret));
+    }
+    if (notificationConfig.email) {
+      notifiers.push(new EmailNotifier(notificationConfig.email));
+    }
+    if (notificationConfig.ntfy) {
+      notifiers.push(new NtfyNotifier(notificationConfig.ntfy));
     }
 
-    await Promise.allSettled(promises);
+    return notifiers;
   }
 
-  private async sendDiscordNotification(
-    type: 'success' | 'error' | 'warning',
-    message: string,
+  // Sends the event's template rendered with `vars` and the transaction's fields.
+  // Alerts without a transaction are deduplicated per event and job.
+  async notify(
+    event: NotificationEvent,
+    type: NotificationType,
+    vars: TemplateVars,
     transaction?: SwapTransaction
   ): Promise<void> {
-    try {
-      const color = type === 'success' ? 0x00ff00 : type === 'error' ? 0xff0000 : 0xffaa00;
-
-      const embed: any = {
-        title: `KYVE Swapper - ${type.toUpperCase()}`,
-        description: message,
-        color,
-        timestamp: new Date().toISOString(),
-      };
-
-      if (transaction) {
-        embed.fields = [
-          {
-            name: 'From',
-            value: `${transaction.fromAmount} ${transaction.fromToken}`,
-            inline: true,
-          },
-          {
-            name: 'To',
-            value: `${transaction.toAmount} ${transaction.toToken}`,
-            inline: true,
-          },
-          {
-            name: 'Cost Basis',
-            value: `$${transaction.costBasisUSD.toFixed(2)}`,
-            inline: true,
-          },
-          {
-            name: 'Status',
-            value: transaction.status,
-            inline: true,
-          },
-          {
-            name: 'TX Hash',
-            value: transaction.txHash || 'N/A',
-            inline: false,
-          },
-        ];
-      }
-
-      await axios.post(notificationConfig.discordWebhook!, {
-        embeds: [embed],
-      });
+    const message = renderTemplate(this.templates[event], {
+      ...(transaction ? transactionVars(transaction) : {}),
+      ...vars,
+    });
+    const dedupKey = transaction ? undefined : `${event}:${vars.job ?? vars.label ?? ''}`;
 
-      logger.debug('Discord notification sent');
-    } catch (error: any) {
-      logger.error(`Failed to send Discord notification: ${error.message || error}`);
-    }
+    await this.dispatch(type, message, transaction, dedupKey);
   }
 
-  private async sendTelegramNotification(
-    type: 'success' | 'error' | 'warning',
+  async sendNotification(
+    type: NotificationType,
     message: string,
     transaction?: SwapTransaction
   ): Promise<void> {
-    try {
-      const emoji = type === 'success' ? '✅' : type === 'error' ? '❌' : '⚠️';
-      let text = `${emoji} *KYVE Swapper ${type.toUpperCase()}*\n\n${message}`;
-
-      if (transaction) {
-        text += '\n\n';
-        text += `*From:* ${transaction.fromAmount} ${transaction.fromToken}\n`;
-        text += `*To:* ${transaction.toAmount} ${transaction.toToken}\n`;
-        text += `*Cost Basis:* $${transaction.costBasisUSD.toFixed(2)}\n`;
-        text += `*Status:* ${transaction.status}\n`;
-        if (transaction.txHash) {
-          text += `*TX Hash:* \`${transaction.txHash}\``;
-        }
+    await this.dispatch(type, message, transaction, transaction ? undefined : message);
+  }
+
+  private async dispatch(
+    type: NotificationType,
+    message: string,
+    transaction: SwapTransaction | undefined,
+    dedupKey: string | undefined,
+    title?: string
+  ): Promise<void> {
+    if (dedupKey && this.isRepeat(dedupKey, type, message)) {
+      logger.debug(`Suppressed repeated notification: ${message}`);
+      return;
+    }
+
+    const notification = formatNotification(type, message, transaction, title);
+    const recipients = this.notifiers.filter(notifier => this.accepts(notifier.name, notification));
+
+    await Promise.allSettled(recipients.map(notifier => this.deliver(notifier, notification)));
+  }
+
+  // The first alert for a key is sent and opens the dedup window; repeats inside it are
+  // only counted and reported in one summary when the window closes
+  private isRepeat(key: string, type: NotificationType, message: string): boolean {
+    const windowMs = this.settings.dedupWindowMinutes * 60 * 1000;
+    if (windowMs === 0) {
+      return false;
+    }
+
+    const recent = this.recentAlerts.get(key);
+    if (recent) {
+      Object.assign(recent, { type, message, repeats: recent.repeats + 1 });
+      return true;
+    }
+
+    this.recentAlerts.set(key, { type, message, repeats: 0 });
+    setTimeout(() => this.closeDedupWindow(key), windowMs).unref();
+    return false;
+  }
+
+  private async closeDedupWindow(key: string): Promise<void> {
+    const recent = this.recentAlerts.get(key);
+    this.recentAlerts.delete(key);
+    if (!recent || recent.repeats === 0) {
+      return;
+    }
+
+    const times = recent.repeats === 1 ? 'time' : 'times';
+    const summary = `${recent.message} (repeated ${recent.repeats} ${times} in the last ${this.settings.dedupWindowMinutes} min)`;
+    await this.dispatch(recent.type, summary, undefined, undefined);
+  }
+
+  // Severity filter, quiet hours (errors still go out) and the hourly rate limit of a channel
+  private accepts(channel: NotificationChannel, notification: Notification): boolean {
+    const policy = this.settings.channels[channel];
+
+    if (!meetsLevel(notification.level, policy.minLevel)) {
+      return false;
+    }
+
+    if (policy.quietHours && notification.level !== 'error' && inQuietHours(policy.quietHours)) {
+      logger.debug(`${channel} is in quiet hours (${policy.quietHours}), notification not sent`);
+      return false;
+    }
+
+    if (policy.maxPerHour > 0) {
+      const now = Date.now();
+      const sent = (this.sentTimes.get(channel) || []).filter(time => now - time < HOUR_MS);
+      if (sent.length >= policy.maxPerHour) {
+        logger.warn(`${channel} notification rate limit reached (${policy.maxPerHour}/hour), dropping: ${notification.message}`);
+        this.sentTimes.set(channel, sent);
+        return false;
       }
+      this.sentTimes.set(channel, [...sent, now]);
+    }
 
-      const url = `https://api.telegram.org/bot${notificationConfig.telegramBotToken}/sendMessage`;
-      await axios.post(url, {
-        chat_id: notificationConfig.telegramChatId,
-        text,
-        parse_mode: 'Markdown',
-      });
+    return true;
+  }
 
-      logger.debug('Telegram notification sent');
+  private async deliver(notifier: Notifier, notification: Notification): Promise<void> {
+    try {
+      await notifier.send(notification);
+      logger.debug(`${notifier.name} notification sent`);
     } catch (error: any) {
-      logger.error(`Failed to send Telegram notification: ${error.message || error}`);
+      logger.error(`Failed to send ${notifier.name} notification: ${error.message || error}`);
     }
   }
 
-  async sendDailySummary(stats: any): Promise<void> {
-    const message = `Daily Summary:\n` +
-      `Total Transactions: ${stats.totalTransactions}\n` +
-      `Successful: ${stats.successfulTransactions}\n` +
-      `Total Volume: $${stats.totalVolumeUSD.toFixed(2)}\n` +
-      `Average Rate: ${stats.averageRate.toFixed(6)}`;
-
-    await this.sendNotification('success', message);
+  // Periodic performance report; never deduplicated
+  async sendReport(title: string, summary: string): Promise<void> {
+    await this.dispatch('success', summary, undefined, undefined, title);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import { SwapTransaction } from '../types';
+
+export type NotificationEvent =
+  | 'swap_completed'
+  | 'swap_failed'
+  | 'swap_timed_out'
+  | 'swap_settled'
+  | 'swap_reconciled'
+  | 'swap_unresolved'
+  | 'twap_completed'
+  | 'twap_slice_skipped'
+  | 'no_balance'
+  | 'rate_too_low'
+  | 'price_deviation'
+  | 'route_policy'
+  | 'claim_failed';
+
+export type TemplateVars = Record<string, string | number | undefined>;
+
+// Messages sent for each event. Overrides from NOTIFICATION_TEMPLATES_FILE replace these by name.
+export const DEFAULT_TEMPLATES: Record<NotificationEvent, string> = {
+  swap_completed: '[{{job}}] Swap completed: {{amountIn}} {{sourceSymbol}} → {{amountOut}} {{destSymbol}} (Cost basis: ${{costBasis}})',
+  swap_failed: '[{{job}}] Swap failed: {{error}}',
+  swap_timed_out: '[{{job}}] Swap timed out after {{timeoutMinutes}} minutes; funds may still arrive, tracking in background',
+  swap_settled: '{{label}} settled after timeout: {{status}}{{detail}}',
+  swap_reconciled: '{{label}} reconciled after restart: {{status}}{{detail}}',
+  swap_unresolved: '{{label}} could not be reconciled and stays pending, so swaps from {{chain}} are paused: {{error}}',
+  twap_completed: '[{{job}}] TWAP swap {{status}}: {{completedSlices}}/{{slices}} slices, {{amountIn}} {{sourceSymbol}} → {{amountOut}} {{destSymbol}} (avg rate {{averageRate}})',
+  twap_slice_skipped: '[{{job}}] TWAP slice {{slice}} skipped: {{reason}}',
+  no_balance: '[{{job}}] No {{sourceSymbol}} balance available for swap',
+  rate_too_low: '[{{job}}] Swap cancelled: Rate too low ({{rate}} < {{minRate}})',
+  price_deviation: '[{{job}}] Swap cancelled: {{reason}}',
+  route_policy: '[{{job}}] Swap cancelled: {{reason}}',
+  claim_failed: '[{{job}}] Staking reward claim failed, swapping the existing balance: {{error}}',
+};
+
+export const NOTIFICATION_EVENTS = Object.keys(DEFAULT_TEMPLATES) as NotificationEvent[];
+
+// Replaces {{name}} with vars[name]; unknown placeholders are left as written so typos show up
+export function renderTemplate(template: string, vars: TemplateVars): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    vars[name] === undefined ? placeholder : String(vars[name])
+  );
+}
+
+// A transaction's scalar fields (fromAmount, toToken, txHash, effectiveRate, ...) as template variables
+export function transactionVars(transaction: SwapTransaction): TemplateVars {
+  return Object.fromEntries(
+    Object.entries(transaction).filter(([, value]) => typeof value === 'string' || typeof value === 'number')
+  );
+}
+
+// Template names in an overrides file that don't match any event
+export function unknownTemplateNames(overrides: Record<string, string>): string[] {
+  return Object.keys(overrides).filter(name => !NOTIFICATION_EVENTS.includes(name as NotificationEvent));
+}
+
+export function resolveTemplates(overrides: Record<string, string>): Record<NotificationEvent, string> {
+  return { ...DEFAULT_TEMPLATES, ...overrides };
+}
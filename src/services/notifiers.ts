@@ -0,0 +1,213 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  EmailNotificationConfig,
+  NotificationChannel,
+  NotificationLevel,
+  NotificationType,
+  NtfyNotificationConfig,
+  SwapTransaction,
+} from '../types';
+
+export interface NotificationField {
+  name: string;
+  value: string;
+  inline: boolean;
+  code?: boolean; // Hashes and IDs, shown monospaced where the channel supports it
+}
+
+// A notification formatted once and rendered by each channel
+export interface Notification {
+  type: NotificationType;
+  level: NotificationLevel;
+  title: string;
+  message: string;
+  fields: NotificationField[];
+  timestamp: string;
+  transaction?: SwapTransaction;
+}
+
+/**
+ * A channel notifications are delivered to. Notifiers throw on delivery
+ * errors; NotificationService applies each channel's severity, rate limit and
+ * quiet hours, and logs failures without affecting other channels.
+ */
+export interface Notifier {
+  readonly name: NotificationChannel;
+  send(notification: Notification): Promise<void>;
+}
+
+const LEVEL_RANK: Record<NotificationLevel, number> = { info: 0, warning: 1, error: 2 };
+
+const EMOJI: Record<NotificationType, string> = { success: '✅', warning: '⚠️', error: '❌' };
+
+export function notificationLevel(type: NotificationType): NotificationLevel {
+  return type === 'success' ? 'info' : type;
+}
+
+export function meetsLevel(level: NotificationLevel, minLevel: NotificationLevel): boolean {
+  return LEVEL_RANK[level] >= LEVEL_RANK[minLevel];
+}
+
+export function formatNotification(
+  type: NotificationType,
+  message: string,
+  transaction?: SwapTransaction,
+  title: string = `KYVE Swapper - ${type.toUpperCase()}`
+): Notification {
+  const fields: NotificationField[] = [];
+  if (transaction) {
+    fields.push(
+      { name: 'From', value: `${transaction.fromAmount} ${transaction.fromToken}`, inline: true },
+      { name: 'To', value: `${transaction.toAmount} ${transaction.toToken}`, inline: true },
+      { name: 'Cost Basis', value: `$${transaction.costBasisUSD.toFixed(2)}`, inline: true },
+      { name: 'Status', value: transaction.status, inline: true },
+      { name: 'TX Hash', value: transaction.txHash || 'N/A', inline: false, code: Boolean(transaction.txHash) }
+    );
+  }
+
+  return {
+    type,
+    level: notificationLevel(type),
+    title,
+    message,
+    fields,
+    timestamp: new Date().toISOString(),
+    transaction,
+  };
+}
+
+// Message and fields as text; 'markdown' uses the *bold*/`code` syntax Telegram and Slack share
+export function renderText(notification: Notification, style: 'plain' | 'markdown'): string {
+  const lines = notification.fields.map(field => {
+    const value = style === 'markdown' && field.code ? `\`${field.value}\`` : field.value;
+    return style === 'markdown' ? `*${field.name}:* ${value}` : `${field.name}: ${value}`;
+  });
+
+  return lines.length > 0 ? `${notification.message}\n\n${lines.join('\n')}` : notification.message;
+}
+
+export class DiscordNotifier implements Notifier {
+  readonly name = 'discord';
+
+  constructor(private webhookUrl: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    const color = notification.type === 'success' ? 0x00ff00 : notification.type === 'error' ? 0xff0000 : 0xffaa00;
+
+    await axios.post(this.webhookUrl, {
+      embeds: [{
+        title: notification.title,
+        description: notification.message,
+        color,
+        timestamp: notification.timestamp,
+        fields: notification.fields.length > 0
+          ? notification.fields.map(({ name, value, inline }) => ({ name, value, inline }))
+          : undefined,
+      }],
+    });
+  }
+}
+
+export class TelegramNotifier implements Notifier {
+  readonly name = 'telegram';
+
+  constructor(private botToken: string, private chatId: string, private apiUrl: string = 'https://api.telegram.org') {}
+
+  async send(notification: Notification): Promise<void> {
+    const text = `${EMOJI[notification.type]} *${notification.title}*\n\n${renderText(notification, 'markdown')}`;
+
+    await axios.post(`${this.apiUrl.replace(/\/+$/, '')}/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text,
+      parse_mode: 'Markdown',
+    });
+  }
+}
+
+// Slack incoming webhook
+export class SlackNotifier implements Notifier {
+  readonly name = 'slack';
+
+  constructor(private webhookUrl: string) {}
+
+  async send(notification: Notification): Promise<void> {
+    await axios.post(this.webhookUrl, {
+      text: `${EMOJI[notification.type]} *${notification.title}*\n${renderText(notification, 'markdown')}`,
+    });
+  }
+}
+
+/**
+ * Posts the notification as JSON. With a secret, the request carries
+ * `X-Swapper-Timestamp` and `X-Swapper-Signature: sha256=<hex>`, an
+ * HMAC-SHA256 of `<timestamp>.<body>`, so receivers can verify the sender
+ * and reject replays.
+ */
+export class WebhookNotifier implements Notifier {
+  readonly name = 'webhook';
+
+  constructor(private url: string, private secret: string | undefined) {}
+
+  async send(notification: Notification): Promise<void> {
+    const body = JSON.stringify(notification);
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (this.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto.createHmac('sha256', this.secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Swapper-Timestamp'] = timestamp;
+      headers['X-Swapper-Signature'] = `sha256=${signature}`;
+    }
+
+    await axios.post(this.url, body, { headers });
+  }
+}
+
+export class EmailNotifier implements Notifier {
+  readonly name = 'email';
+  private transporter: Transporter;
+
+  constructor(private email: EmailNotificationConfig) {
+    this.transporter = nodemailer.createTransport({
+      host: email.host,
+      port: email.port,
+      secure: email.secure,
+      auth: email.user ? { user: email.user, pass: email.password } : undefined,
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    const summary = notification.message.split('\n')[0];
+
+    await this.transporter.sendMail({
+      from: this.email.from,
+      to: this.email.to,
+      subject: `[${notification.title}] ${summary}`,
+      text: `${renderText(notification, 'plain')}\n\n${notification.timestamp}`,
+    });
+  }
+}
+
+// ntfy.sh or a self-hosted ntfy server
+export class NtfyNotifier implements Notifier {
+  readonly name = 'ntfy';
+
+  constructor(private ntfy: NtfyNotificationConfig) {}
+
+  async send(notification: Notification): Promise<void> {
+    const priority = notification.type === 'error' ? 'high' : notification.type === 'warning' ? 'default' : 'low';
+    const tag = notification.type === 'success' ? 'white_check_mark' : notification.type === 'error' ? 'x' : 'warning';
+
+    await axios.post(`${this.ntfy.url.replace(/\/+$/, '')}/${encodeURIComponent(this.ntfy.topic)}`, renderText(notification, 'plain'), {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        Title: notification.title,
+        Priority: priority,
+        Tags: tag,
+        ...(this.ntfy.token ? { Authorization: `Bearer ${this.ntfy.token}` } : {}),
+      },
+    });
+  }
+}
@@ -1,11 +1,12 @@
-import axios from 'axios';
-import { PriceData } from '../types';
+import { PriceData, PriceDeviationCheck } from '../types';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { CoinGeckoSource, CoinPaprikaSource, OsmosisPoolSource, PriceQuote, PriceSource } from './priceSources';
+import { metrics } from './metrics';
 
 interface PriceCache {
   [symbol: string]: {
-    price: number;
+    data: PriceData;
     timestamp: number;
   };
 }
@@ -13,9 +14,24 @@ interface PriceCache {
 export class PriceService {
   private cache: PriceCache = {};
   private cacheDuration: number;
+  private sources: PriceSource[];
 
-  constructor() {
+  constructor(sources?: PriceSource[]) {
     this.cacheDuration = config.price.cacheDuration * 60 * 1000;
+    this.sources = sources || PriceService.createConfiguredSources();
+  }
+
+  private static createConfiguredSources(): PriceSource[] {
+    return config.price.sources.map(name => {
+      switch (name) {
+        case 'coingecko':
+          return new CoinGeckoSource(config.price.coingeckoApiKey);
+        case 'coinpaprika':
+          return new CoinPaprikaSource();
+        case 'osmosis':
+          return new OsmosisPoolSource(config.price.osmosisLcdUrl, config.price.osmosisPools);
+      }
+    });
   }
 
   async getPrice(symbol: string): Promise<PriceData | null> {
@@ -25,9 +41,9 @@ export class PriceService {
         return cached;
       }
 
-      const price = await this.fetchPriceFromCoinGecko(symbol);
+      const price = await this.fetchAggregatedPrice(symbol);
       if (price) {
-        this.cachePrice(symbol, price.price);
+        this.cachePrice(symbol, price);
         return price;
       }
 
@@ -63,117 +79,92 @@ export class PriceService {
       return null;
     }
 
-    return {
-      symbol,
-      price: cached.price,
-      timestamp: new Date(cached.timestamp).toISOString(),
-      source: 'cache',
-    };
+    return { ...cached.data, symbol };
   }
 
-  private cachePrice(symbol: string, price: number): void {
+  private cachePrice(symbol: string, data: PriceData): void {
     this.cache[symbol.toLowerCase()] = {
-      price,
+      data,
       timestamp: Date.now(),
     };
   }
 
-  private async fetchPriceFromCoinGecko(symbol: string): Promise<PriceData | null> {
-    try {
-      const coinId = this.getCoinGeckoId(symbol);
-      if (!coinId) {
-        logger.warn(`No CoinGecko ID mapping for ${symbol}`);
-        return null;
+  // Queries every source, drops stale quotes and outliers, and returns the median.
+  // Returns null (refuses to price) when too few sources remain or they disagree too much.
+  private async fetchAggregatedPrice(symbol: string): Promise<PriceData | null> {
+    const results = await Promise.allSettled(this.sources.map(source => source.fetchPrice(symbol)));
+    const now = Date.now();
+    const maxAgeMs = config.price.maxAgeSeconds * 1000;
+
+    let quotes: PriceQuote[] = [];
+    results.forEach((result, idx) => {
+      const sourceName = this.sources[idx].name;
+      if (result.status === 'rejected') {
+        const error = result.reason;
+        logger.warn(`Price source ${sourceName} failed for ${symbol}: Status ${error?.response?.status}, Message: ${error?.message || error}`);
+        return;
       }
 
-      const url = `https://api.coingecko.com/api/v3/simple/price`;
-      const params: any = {
-        ids: coinId,
-        vs_currencies: 'usd',
-      };
-
-      logger.debug(`Fetching price from CoinGecko: ${url}?${new URLSearchParams(params).toString()}`);
-      const response = await axios.get(url, { params });
-      logger.debug(`CoinGecko response:`, response.data);
-      const price = response.data[coinId]?.usd;
-
-      if (!price) {
-        logger.warn(`No price data returned for ${symbol}`);
-        return null;
+      const quote = result.value;
+      if (!quote || !(quote.price > 0)) {
+        logger.debug(`Price source ${sourceName} has no price for ${symbol}`);
+        return;
       }
 
-      logger.debug(`Fetched price for ${symbol}: $${price}`);
-
-      return {
-        symbol,
-        price,
-        timestamp: new Date().toISOString(),
-        source: 'coingecko',
-      };
-    } catch (error: any) {
-      if (error.response?.status === 429) {
-        logger.warn('CoinGecko rate limit hit, using fallback price source');
-        return this.fetchPriceFromBackup(symbol);
+      if (now - quote.timestamp > maxAgeMs) {
+        logger.warn(`Dropping stale ${sourceName} price for ${symbol} (${Math.round((now - quote.timestamp) / 1000)}s old)`);
+        return;
       }
-      logger.error(`CoinGecko API error for ${symbol}: Status ${error.response?.status}, Message: ${error.response?.data?.status?.error_message || error.message}`);
-      throw error;
-    }
-  }
 
-  private async fetchPriceFromBackup(symbol: string): Promise<PriceData | null> {
-    try {
-      if (symbol.toUpperCase() === 'USDC') {
-        return {
-          symbol: 'USDC',
-          price: 1.0,
-          timestamp: new Date().toISOString(),
-          source: 'fixed',
-        };
-      }
+      quotes.push(quote);
+    });
+
+    // With three or more quotes, discard any too far from the median
+    if (quotes.length >= 3) {
+      const center = this.median(quotes.map(quote => quote.price));
+      const kept = quotes.filter(quote => Math.abs(quote.price - center) / center * 100 <= config.price.outlierPercent);
+      quotes.filter(quote => !kept.includes(quote)).forEach(quote => {
+        logger.warn(`Dropping outlier ${quote.source} price for ${symbol}: $${quote.price} vs median $${center}`);
+      });
+      quotes = kept;
+    }
 
-      const url = `https://api.coinpaprika.com/v1/tickers/${this.getCoinPaprikaId(symbol)}`;
-      const response = await axios.get(url);
-      const price = response.data.quotes?.USD?.price;
+    if (quotes.length < config.price.minSources) {
+      logger.error(`Refusing to price ${symbol}: ${quotes.length} usable source(s), ${config.price.minSources} required`);
+      return null;
+    }
 
-      if (!price) {
-        logger.warn(`No backup price data for ${symbol}`);
-        return null;
-      }
+    const prices = quotes.map(quote => quote.price);
+    const price = this.median(prices);
+    const spreadPercent = (Math.max(...prices) - Math.min(...prices)) / price * 100;
 
-      return {
-        symbol,
-        price,
-        timestamp: new Date().toISOString(),
-        source: 'coinpaprika',
-      };
-    } catch (error: any) {
-      logger.error(`Failed to fetch backup price for ${symbol}: ${error.message || error}`);
+    if (spreadPercent > config.price.maxDisagreementPercent) {
+      logger.error(`Refusing to price ${symbol}: sources disagree by ${spreadPercent.toFixed(2)}% (max ${config.price.maxDisagreementPercent}%)`, {
+        quotes: quotes.map(quote => `${quote.source}=$${quote.price}`),
+      });
       return null;
     }
-  }
 
-  private getCoinGeckoId(symbol: string): string | null {
-    const mappings: Record<string, string> = {
-      'kyve': 'kyve-network',
-      'usdc': 'usd-coin',
-      'usdt': 'tether',
-      'atom': 'cosmos',
-      'osmo': 'osmosis',
-    };
+    const sources = quotes.map(quote => quote.source);
+    const confidence = (quotes.length / this.sources.length) * (1 - spreadPercent / config.price.maxDisagreementPercent);
 
-    return mappings[symbol.toLowerCase()] || null;
-  }
+    logger.debug(`Aggregated price for ${symbol}: $${price}`, { sources, spreadPercent, confidence });
+    metrics.setOraclePrice(symbol, price, sources.length);
 
-  private getCoinPaprikaId(symbol: string): string {
-    const mappings: Record<string, string> = {
-      'kyve': 'kyve-kyve-network',
-      'usdc': 'usdc-usd-coin',
-      'usdt': 'usdt-tether',
-      'atom': 'atom-cosmos',
-      'osmo': 'osmo-osmosis',
+    return {
+      symbol,
+      price,
+      timestamp: new Date().toISOString(),
+      source: sources.join('+'),
+      sources,
+      confidence: Math.max(0, Math.min(1, confidence)),
     };
+  }
 
-    return mappings[symbol.toLowerCase()] || `${symbol.toLowerCase()}-${symbol.toLowerCase()}`;
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
   }
 
   async calculateCostBasis(amount: string, token: string, decimals: number = 6): Promise<number> {
@@ -187,16 +178,50 @@ export class PriceService {
     return amountFloat * price.price;
   }
 
+  // Compares a route's rate (destination per source unit) with the oracle's rate for the
+  // same pair. Fails when they differ by more than maxDeviationPercent in either direction:
+  // a route far above the oracle usually means a stale oracle rather than a good deal.
+  checkRouteDeviation(
+    routeRate: number,
+    sourcePrice: PriceData,
+    destPrice: PriceData | undefined,
+    maxDeviationPercent: number
+  ): PriceDeviationCheck {
+    const destUSD = destPrice?.price || 1;
+    const oracleRate = sourcePrice.price / destUSD;
+    const deviationPercent = ((routeRate - oracleRate) / oracleRate) * 100;
+
+    return {
+      routeRate,
+      oracleRate,
+      sourcePrice: sourcePrice.price,
+      destPrice: destUSD,
+      oracleSource: destPrice ? `${sourcePrice.source}/${destPrice.source}` : sourcePrice.source,
+      deviationPercent,
+      maxDeviationPercent,
+      passed: maxDeviationPercent === 0 || Math.abs(deviationPercent) <= maxDeviationPercent,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  // Converts a fee paid in the chain's native fee token (base units) to USD
   async getGasPriceInUSD(gasUsed: string, chainId: string): Promise<number> {
     try {
       let tokenSymbol = 'atom';
+      let decimals = 6;
 
       if (chainId.includes('kyve')) {
         tokenSymbol = 'kyve';
       } else if (chainId.includes('noble')) {
-        tokenSymbol = 'atom';
+        tokenSymbol = 'usdc'; // Noble fees are paid in uusdc
       } else if (chainId.includes('osmosis')) {
         tokenSymbol = 'osmo';
+      } else if (chainId.includes('axelar')) {
+        tokenSymbol = 'axl';
+      } else if (/^\d+$/.test(chainId)) {
+        // EVM chains (Ethereum L1, Base L2) pay gas in ETH
+        tokenSymbol = 'eth';
+        decimals = 18;
       }
 
       const price = await this.getPrice(tokenSymbol);
@@ -204,7 +229,7 @@ export class PriceService {
         return 0;
       }
 
-      const gasAmount = parseFloat(gasUsed) / Math.pow(10, 6);
+      const gasAmount = parseFloat(gasUsed) / Math.pow(10, decimals);
       return gasAmount * price.price;
     } catch (error: any) {
       logger.error(`Failed to calculate gas price in USD: ${error.message || error}`);
@@ -0,0 +1,161 @@
+import axios from 'axios';
+import { logger } from '../utils/logger';
+
+export interface PriceQuote {
+  symbol: string;
+  price: number; // USD
+  timestamp: number; // When the source last updated this price (ms since epoch)
+  source: string;
+}
+
+/**
+ * A single place to read a USD price from. Sources return null when they have
+ * no price for a symbol and throw on transport errors; PriceService treats
+ * both as "no quote" and aggregates whatever the other sources return.
+ */
+export interface PriceSource {
+  readonly name: string;
+  fetchPrice(symbol: string): Promise<PriceQuote | null>;
+}
+
+export interface OsmosisPoolConfig {
+  poolId: string;
+  baseDenom: string; // Denom of the priced asset on Osmosis
+  quoteDenom: string; // Denom of a USD stablecoin on Osmosis
+  baseDecimals?: number;
+  quoteDecimals?: number;
+}
+
+export class CoinGeckoSource implements PriceSource {
+  readonly name = 'coingecko';
+  private apiKey?: string;
+
+  constructor(apiKey?: string) {
+    this.apiKey = apiKey;
+  }
+
+  async fetchPrice(symbol: string): Promise<PriceQuote | null> {
+    const coinId = this.getCoinGeckoId(symbol);
+    if (!coinId) {
+      logger.debug(`No CoinGecko ID mapping for ${symbol}`);
+      return null;
+    }
+
+    const url = `https://api.coingecko.com/api/v3/simple/price`;
+    const params: any = {
+      ids: coinId,
+      vs_currencies: 'usd',
+      include_last_updated_at: true,
+    };
+
+    logger.debug(`Fetching price from CoinGecko: ${url}?${new URLSearchParams(params).toString()}`);
+    const response = await axios.get(url, {
+      params,
+      headers: this.apiKey ? { 'x-cg-demo-api-key': this.apiKey } : undefined,
+    });
+    logger.debug(`CoinGecko response:`, response.data);
+
+    const entry = response.data[coinId];
+    if (!entry?.usd) {
+      return null;
+    }
+
+    return {
+      symbol,
+      price: entry.usd,
+      timestamp: entry.last_updated_at ? entry.last_updated_at * 1000 : Date.now(),
+      source: this.name,
+    };
+  }
+
+  private getCoinGeckoId(symbol: string): string | null {
+    const mappings: Record<string, string> = {
+      'kyve': 'kyve-network',
+      'usdc': 'usd-coin',
+      'usdt': 'tether',
+      'atom': 'cosmos',
+      'osmo': 'osmosis',
+      'eth': 'ethereum',
+      'axl': 'axelar',
+    };
+
+    return mappings[symbol.toLowerCase()] || null;
+  }
+}
+
+export class CoinPaprikaSource implements PriceSource {
+  readonly name = 'coinpaprika';
+
+  async fetchPrice(symbol: string): Promise<PriceQuote | null> {
+    const url = `https://api.coinpaprika.com/v1/tickers/${this.getCoinPaprikaId(symbol)}`;
+    const response = await axios.get(url);
+    const price = response.data.quotes?.USD?.price;
+
+    if (!price) {
+      return null;
+    }
+
+    return {
+      symbol,
+      price,
+      timestamp: response.data.last_updated ? new Date(response.data.last_updated).getTime() : Date.now(),
+      source: this.name,
+    };
+  }
+
+  private getCoinPaprikaId(symbol: string): string {
+    const mappings: Record<string, string> = {
+      'kyve': 'kyve-kyve-network',
+      'usdc': 'usdc-usd-coin',
+      'usdt': 'usdt-tether',
+      'atom': 'atom-cosmos',
+      'osmo': 'osmo-osmosis',
+      'eth': 'eth-ethereum',
+      'axl': 'axl-axelar',
+    };
+
+    return mappings[symbol.toLowerCase()] || `${symbol.toLowerCase()}-${symbol.toLowerCase()}`;
+  }
+}
+
+// Spot price from an Osmosis pool quoted in a USD stablecoin (taken as $1)
+export class OsmosisPoolSource implements PriceSource {
+  readonly name = 'osmosis';
+  private lcdUrl: string;
+  private pools: Record<string, OsmosisPoolConfig>;
+
+  constructor(lcdUrl: string, pools: Record<string, OsmosisPoolConfig>) {
+    this.lcdUrl = lcdUrl.replace(/\/$/, '');
+    this.pools = pools;
+  }
+
+  async fetchPrice(symbol: string): Promise<PriceQuote | null> {
+    const pool = this.pools[symbol.toLowerCase()];
+    if (!pool) {
+      return null;
+    }
+
+    const url = `${this.lcdUrl}/osmosis/poolmanager/v1beta1/pools/${pool.poolId}/prices`;
+    const response = await axios.get(url, {
+      params: {
+        base_asset_denom: pool.baseDenom,
+        quote_asset_denom: pool.quoteDenom,
+      },
+    });
+
+    const spotPrice = parseFloat(response.data.spot_price);
+    if (!spotPrice) {
+      return null;
+    }
+
+    // Spot price is in raw base units; adjust for differing token decimals
+    const decimalsAdjustment = Math.pow(10, (pool.baseDecimals ?? 6) - (pool.quoteDecimals ?? 6));
+
+    return {
+      symbol,
+      price: spotPrice * decimalsAdjustment,
+      timestamp: Date.now(),
+      source: this.name,
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PriceTriggerState, PriceTriggerStatus, SwapConfig, SwapTransaction } from '../types';
+import { logger } from '../utils/logger';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const TRIGGER_FILE = path.join(DATA_DIR, 'price_triggers.json');
+
+export interface TriggerDecision {
+  fire: boolean;
+  reason?: string;
+}
+
+/**
+ * Take-profit triggers for price-mode jobs. Without a trailing stop a job fires
+ * once KYVE trades at or above its target price. With one, reaching the target
+ * arms the stop, which then follows the highest price seen and fires when the
+ * price falls the configured distance below that peak. Every firing starts a
+ * cooldown; a completed swap also disarms the trailing stop.
+ */
+export class PriceTrigger {
+  private states: Record<string, PriceTriggerState> = {};
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadStates();
+  }
+
+  async ready(): Promise<void> {
+    await this.loaded;
+  }
+
+  private async loadStates(): Promise<void> {
+    try {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+
+      const data = await fs.readFile(TRIGGER_FILE, 'utf-8');
+      this.states = JSON.parse(data);
+      logger.info(`Loaded price trigger state for ${Object.keys(this.states).length} job(s)`);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.info('No existing price trigger state found, starting fresh');
+        this.states = {};
+      } else {
+        logger.error(`Failed to load price trigger state: ${error.message || error}`);
+      }
+    }
+  }
+
+  private async saveStates(): Promise<void> {
+    try {
+      await fs.writeFile(TRIGGER_FILE, JSON.stringify(this.states, null, 2), 'utf-8');
+      logger.debug('Price trigger state saved to file');
+    } catch (error: any) {
+      logger.error(`Failed to save price trigger state: ${error.message || error}`);
+    }
+  }
+
+  private getState(jobName: string): PriceTriggerState {
+    if (!this.states[jobName]) {
+      this.states[jobName] = { armed: false, fills: 0 };
+    }
+    return this.states[jobName];
+  }
+
+  // Feeds one price observation to the job's trigger and returns whether it fired
+  async evaluate(job: SwapConfig, priceUSD: number, now: Date = new Date()): Promise<TriggerDecision> {
+    const state = this.getState(job.name);
+    state.lastPriceUSD = priceUSD;
+    state.lastCheckedAt = now.toISOString();
+
+    const decision = this.decide(job, state, priceUSD, now);
+    await this.saveStates();
+    return decision;
+  }
+
+  private decide(job: SwapConfig, state: PriceTriggerState, priceUSD: number, now: Date): TriggerDecision {
+    if (state.cooldownUntil && now < new Date(state.cooldownUntil)) {
+      return { fire: false };
+    }
+
+    if (job.trailingStopPercent === 0) {
+      return priceUSD >= job.triggerPriceUSD
+        ? { fire: true, reason: `price $${priceUSD.toFixed(4)} reached target $${job.triggerPriceUSD}` }
+        : { fire: false };
+    }
+
+    if (!state.armed) {
+      if (priceUSD < job.triggerPriceUSD) {
+        return { fire: false };
+      }
+      state.armed = true;
+      state.peakPriceUSD = priceUSD;
+      logger.info(`[${job.name}] Trailing stop armed at $${priceUSD.toFixed(4)} (${job.trailingStopPercent}% below the peak)`);
+    }
+
+    state.peakPriceUSD = Math.max(state.peakPriceUSD || 0, priceUSD);
+    const stopPriceUSD = this.stopPrice(job, state)!;
+    if (priceUSD > stopPriceUSD) {
+      return { fire: false };
+    }
+
+    return {
+      fire: true,
+      reason: `price $${priceUSD.toFixed(4)} fell ${job.trailingStopPercent}% from its peak $${state.peakPriceUSD.toFixed(4)}`,
+    };
+  }
+
+  // Called after a fired trigger ran its swap; `result` is null when the swap was skipped
+  async recordFiring(job: SwapConfig, result: SwapTransaction | null, now: Date = new Date()): Promise<void> {
+    const state = this.getState(job.name);
+    state.lastFiredAt = now.toISOString();
+    state.cooldownUntil = new Date(now.getTime() + job.triggerCooldownMinutes * 60 * 1000).toISOString();
+
+    if (result?.status === 'completed') {
+      state.fills += 1;
+      state.lastFillId = result.id;
+      state.armed = false;
+      state.peakPriceUSD = undefined;
+    }
+
+    await this.saveStates();
+  }
+
+  getStatus(job: SwapConfig): PriceTriggerStatus {
+    const state = this.getState(job.name);
+    return {
+      ...state,
+      targetPriceUSD: job.triggerPriceUSD,
+      trailingStopPercent: job.trailingStopPercent,
+      cooldownMinutes: job.triggerCooldownMinutes,
+      stopPriceUSD: this.stopPrice(job, state),
+    };
+  }
+
+  private stopPrice(job: SwapConfig, state: PriceTriggerState): number | undefined {
+    if (!state.armed || job.trailingStopPercent === 0 || state.peakPriceUSD === undefined) {
+      return undefined;
+    }
+    return state.peakPriceUSD * (1 - job.trailingStopPercent / 100);
+  }
+}
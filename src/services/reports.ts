@@ -0,0 +1,180 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { PerformanceReport, ReportPeriod } from '../types';
+
+export const REPORTS_DIR = path.join(process.cwd(), 'data', 'reports');
+
+export type ReportFormat = 'markdown' | 'html';
+
+// A titled block of a report, rendered the same way into Markdown and HTML
+interface ReportSection {
+  title: string;
+  table?: { header: string[]; rows: string[][] };
+  lines?: string[];
+}
+
+const PERIOD_TITLES: Record<ReportPeriod, string> = { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' };
+
+// The period that ends at `end`: the previous 24 hours, 7 days or calendar month
+export function reportRange(period: ReportPeriod, end: Date = new Date()): { from: Date; to: Date } {
+  const from = new Date(end);
+  if (period === 'daily') {
+    from.setDate(from.getDate() - 1);
+  } else if (period === 'weekly') {
+    from.setDate(from.getDate() - 7);
+  } else {
+    from.setMonth(from.getMonth() - 1);
+  }
+  return { from, to: end };
+}
+
+export function reportTitle(report: PerformanceReport): string {
+  return `KYVE Swapper ${PERIOD_TITLES[report.period]} Report`;
+}
+
+const amount = (value: number) => value.toFixed(value >= 1 ? 2 : 6);
+const percent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const dateTime = (iso: string) => iso.slice(0, 16).replace('T', ' ');
+
+function describeSkips(report: PerformanceReport): string {
+  return Object.entries(report.skipReasons)
+    .sort(([, a], [, b]) => b - a)
+    .map(([reason, count]) => `${reason} ×${count}`)
+    .join(', ');
+}
+
+function buildSections(report: PerformanceReport): ReportSection[] {
+  const { swaps } = report;
+  const sections: ReportSection[] = [
+    {
+      title: 'Swaps',
+      table: {
+        header: ['Completed', 'Failed', 'Pending', 'Skipped'],
+        rows: [[swaps.completed, swaps.failed, swaps.pending, swaps.skipped].map(String)],
+      },
+      lines: swaps.skipped > 0 ? [`Skipped: ${describeSkips(report)}`] : [],
+    },
+  ];
+
+  sections.push({
+    title: 'Volume and Rates',
+    table: report.pairs.length > 0 ? {
+      header: ['Pair', 'Swaps', 'Sold', 'Received', 'Avg Rate', 'Best', 'Worst', 'Oracle Avg', 'vs Oracle'],
+      rows: report.pairs.map(pair => [
+        `${pair.fromToken} → ${pair.toToken}`,
+        String(pair.swaps),
+        `${amount(pair.sold)} ${pair.fromToken}`,
+        `${amount(pair.received)} ${pair.toToken}`,
+        pair.averageRate.toFixed(6),
+        pair.bestRate.toFixed(6),
+        pair.worstRate.toFixed(6),
+        pair.oracleAverageRate !== undefined ? pair.oracleAverageRate.toFixed(6) : '-',
+        pair.vsOraclePercent !== undefined ? percent(pair.vsOraclePercent) : '-',
+      ]),
+    } : undefined,
+    lines: [
+      ...(report.pairs.length === 0 ? ['No completed swaps in this period.'] : []),
+      `Volume (cost basis): $${report.volumeUSD.toFixed(2)}`,
+      `Fees paid: $${report.feesUSD.toFixed(2)}`,
+    ],
+  });
+
+  sections.push({
+    title: 'Balances',
+    lines: [
+      `KYVE: ${report.balances.kyve}`,
+      ...Object.entries(report.balances.usdc).map(([chain, balance]) => `USDC (${chain}): ${balance}`),
+    ],
+  });
+
+  return sections;
+}
+
+export function renderReportMarkdown(report: PerformanceReport): string {
+  const out = [
+    `# ${reportTitle(report)}`,
+    '',
+    `Period: ${dateTime(report.from)} → ${dateTime(report.to)} UTC`,
+    `Generated: ${dateTime(report.generatedAt)} UTC`,
+  ];
+
+  for (const section of buildSections(report)) {
+    out.push('', `## ${section.title}`, '');
+    if (section.table) {
+      out.push(`| ${section.table.header.join(' | ')} |`);
+      out.push(`|${section.table.header.map(() => '---').join('|')}|`);
+      section.table.rows.forEach(row => out.push(`| ${row.join(' | ')} |`));
+      if (section.lines?.length) {
+        out.push('');
+      }
+    }
+    (section.lines || []).forEach(line => out.push(`- ${line}`));
+  }
+
+  return `${out.join('\n')}\n`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function renderReportHtml(report: PerformanceReport): string {
+  const title = escapeHtml(reportTitle(report));
+  const body = buildSections(report).map(section => {
+    const table = section.table
+      ? `<table>\n<tr>${section.table.header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr>\n` +
+        section.table.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n') +
+        '\n</table>'
+      : '';
+    const lines = section.lines?.length
+      ? `<ul>\n${section.lines.map(line => `<li>${escapeHtml(line)}</li>`).join('\n')}\n</ul>`
+      : '';
+    return `<h2>${escapeHtml(section.title)}</h2>\n${table}\n${lines}`;
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    `<head><meta charset="utf-8"><title>${title}</title>`,
+    '<style>body{font-family:sans-serif;margin:2em}table{border-collapse:collapse}th,td{border:1px solid #ccc;padding:4px 8px;text-align:right}th:first-child,td:first-child{text-align:left}</style>',
+    '</head>',
+    '<body>',
+    `<h1>${title}</h1>`,
+    `<p>Period: ${escapeHtml(dateTime(report.from))} → ${escapeHtml(dateTime(report.to))} UTC<br>Generated: ${escapeHtml(dateTime(report.generatedAt))} UTC</p>`,
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+// Writes the report to data/reports/<period>-<end date>.<md|html> and returns the path
+export async function saveReport(report: PerformanceReport, format: ReportFormat): Promise<string> {
+  await fs.mkdir(REPORTS_DIR, { recursive: true });
+
+  const filePath = path.join(REPORTS_DIR, `${report.period}-${report.to.slice(0, 10)}.${format === 'html' ? 'html' : 'md'}`);
+  await fs.writeFile(filePath, format === 'html' ? renderReportHtml(report) : renderReportMarkdown(report), 'utf-8');
+  return filePath;
+}
+
+// Short plain-text version for notification channels
+export function formatReportSummary(report: PerformanceReport): string {
+  const { swaps } = report;
+  const lines = [
+    `${dateTime(report.from)} → ${dateTime(report.to)} UTC`,
+    `Swaps: ${swaps.completed} completed, ${swaps.failed} failed, ${swaps.pending} pending, ${swaps.skipped} skipped`,
+  ];
+  if (swaps.skipped > 0) {
+    lines.push(`Skipped: ${describeSkips(report)}`);
+  }
+  for (const pair of report.pairs) {
+    const vsOracle = pair.vsOraclePercent !== undefined ? ` (${percent(pair.vsOraclePercent)} vs oracle)` : '';
+    lines.push(
+      `${pair.fromToken} → ${pair.toToken}: sold ${amount(pair.sold)} ${pair.fromToken}, received ${amount(pair.received)} ${pair.toToken}, ` +
+      `avg rate ${pair.averageRate.toFixed(6)}${vsOracle}, best ${pair.bestRate.toFixed(6)}, worst ${pair.worstRate.toFixed(6)}`
+    );
+  }
+  lines.push(`Fees paid: $${report.feesUSD.toFixed(2)}`);
+  lines.push(`Balances: KYVE ${report.balances.kyve}, ${Object.entries(report.balances.usdc).map(([chain, balance]) => `USDC (${chain}) ${balance}`).join(', ')}`);
+
+  return lines.join('\n');
+}
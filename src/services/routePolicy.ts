@@ -0,0 +1,84 @@
+import { config } from '../config';
+import { RoutePreview } from '../types';
+
+type RoutePolicyConfig = typeof config.routePolicy;
+
+/**
+ * Risk limits a Skip route must meet before it is executed: which bridges and
+ * swap venues it may use, how many operations and transactions it may take,
+ * how long and how expensive it may be, and which Skip warnings block it.
+ */
+export class RoutePolicy {
+  constructor(private policy: RoutePolicyConfig = config.routePolicy) {}
+
+  // Every rule the route breaks; empty when it may be executed
+  evaluate(route: RoutePreview, amountInUSD: number): string[] {
+    const violations: string[] = [];
+    const policy = this.policy;
+
+    const bridges = Array.from(new Set(route.steps.filter(step => step.bridge).map(step => step.bridge!.toUpperCase())));
+    const denied = bridges.filter(bridge => policy.deniedBridges.includes(bridge));
+    if (denied.length > 0) {
+      violations.push(`uses denied bridge ${denied.join(', ')}`);
+    }
+    if (policy.allowedBridges.length > 0) {
+      const notAllowed = bridges.filter(bridge => !policy.allowedBridges.includes(bridge));
+      if (notAllowed.length > 0) {
+        violations.push(`uses bridge ${notAllowed.join(', ')} (allowed: ${policy.allowedBridges.join(', ')})`);
+      }
+    }
+
+    if (policy.allowedVenues.length > 0) {
+      const venues = Array.from(new Set(route.steps.flatMap(step => step.venues)));
+      const notAllowed = venues.filter(venue => !policy.allowedVenues.includes(venue.toLowerCase()));
+      if (notAllowed.length > 0) {
+        violations.push(`swaps on ${notAllowed.join(', ')} (allowed: ${policy.allowedVenues.join(', ')})`);
+      }
+    }
+
+    if (policy.maxOperations > 0 && route.steps.length > policy.maxOperations) {
+      violations.push(`${route.steps.length} operations (max ${policy.maxOperations})`);
+    }
+
+    if (policy.maxTxs > 0 && route.txsRequired > policy.maxTxs) {
+      violations.push(`${route.txsRequired} transactions to sign (max ${policy.maxTxs})`);
+    }
+
+    const durationMinutes = route.estimatedDurationSeconds / 60;
+    if (policy.maxDurationMinutes > 0 && durationMinutes > policy.maxDurationMinutes) {
+      violations.push(`estimated ${durationMinutes.toFixed(1)} minutes (max ${policy.maxDurationMinutes})`);
+    }
+
+    if (policy.maxFeePercent > 0 && amountInUSD > 0) {
+      const feesUSD = route.fees.reduce((sum, fee) => sum + fee.usd, 0);
+      const feePercent = (feesUSD / amountInUSD) * 100;
+      if (feePercent > policy.maxFeePercent) {
+        violations.push(`fees $${feesUSD.toFixed(2)} are ${feePercent.toFixed(2)}% of the amount (max ${policy.maxFeePercent}%)`);
+      }
+    }
+
+    if (route.warning && policy.blockWarnings.includes(route.warning.type as RoutePolicyConfig['blockWarnings'][number])) {
+      violations.push(`Skip warning ${route.warning.type}: ${route.warning.message}`);
+    }
+
+    return violations;
+  }
+
+  // Summary for `config validate` and startup logs
+  describe(): string {
+    const policy = this.policy;
+    const rules = [
+      policy.allowedBridges.length > 0 ? `bridges ${policy.allowedBridges.join('/')}` : '',
+      policy.deniedBridges.length > 0 ? `no ${policy.deniedBridges.join('/')}` : '',
+      policy.allowedVenues.length > 0 ? `venues ${policy.allowedVenues.join('/')}` : '',
+      policy.maxOperations > 0 ? `≤${policy.maxOperations} operations` : '',
+      policy.maxTxs > 0 ? `≤${policy.maxTxs} txs` : '',
+      policy.maxDurationMinutes > 0 ? `≤${policy.maxDurationMinutes} min` : '',
+      policy.maxFeePercent > 0 ? `fees ≤${policy.maxFeePercent}%` : '',
+      policy.blockWarnings.length > 0 ? `blocks ${policy.blockWarnings.join('/')}` : '',
+      policy.allowUnsafe ? '' : 'safe routes only',
+    ].filter(Boolean);
+
+    return rules.length > 0 ? rules.join(', ') : 'none';
+  }
+}
@@ -0,0 +1,257 @@
+import axios from 'axios';
+import { Coin, encodeSecp256k1Signature, rawSecp256k1PubkeyToRawAddress } from '@cosmjs/amino';
+import { Secp256k1, Secp256k1Signature, sha256 } from '@cosmjs/crypto';
+import { fromBase64, toBase64, toBech32 } from '@cosmjs/encoding';
+import {
+  AccountData,
+  DirectSecp256k1Wallet,
+  DirectSignResponse,
+  makeSignBytes,
+  OfflineDirectSigner,
+  Registry,
+} from '@cosmjs/proto-signing';
+import { defaultRegistryTypes } from '@cosmjs/stargate';
+import { AuthInfo, SignDoc, TxBody } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { MsgExecuteContract } from 'cosmjs-types/cosmwasm/wasm/v1/tx';
+import { loadSigningKey } from './keystore';
+
+/**
+ * Where the Cosmos signers for each chain come from. WalletManager hands them
+ * to SigningStargateClient and to Skip's getCosmosSigner and never sees a key.
+ */
+export interface SignerProvider {
+  readonly name: 'local' | 'remote';
+  getSigner(prefix: string): Promise<OfflineDirectSigner>;
+}
+
+// In-process key from the keystore or MNEMONIC/PRIVATE_KEY, unlocked on first use
+export class LocalSignerProvider implements SignerProvider {
+  readonly name = 'local';
+  private signingKey: Promise<Uint8Array> | null = null;
+  private signers: Map<string, DirectSecp256k1Wallet> = new Map();
+
+  async getSigner(prefix: string): Promise<OfflineDirectSigner> {
+    if (!this.signingKey) {
+      // A wrong passphrase or unreadable password file is retried on the next call
+      this.signingKey = loadSigningKey();
+      this.signingKey.catch(() => { this.signingKey = null; });
+    }
+    const signingKey = await this.signingKey;
+
+    let signer = this.signers.get(prefix);
+    if (!signer) {
+      // fromKey keeps the array it is given, so each signer gets its own copy
+      signer = await DirectSecp256k1Wallet.fromKey(new Uint8Array(signingKey), prefix);
+      this.signers.set(prefix, signer);
+    }
+    return signer;
+  }
+}
+
+// The sign doc decoded for the remote signer's policy checks
+export interface SignDocSummary {
+  chainId: string;
+  signerAddress: string;
+  accountNumber: string;
+  sequence: string;
+  memo: string;
+  messages: Array<{ typeUrl: string; value: unknown }>; // Decoded where the type is known, base64 otherwise
+  amounts: Coin[]; // Coins moved by the messages (sends, IBC transfers, contract funds), summed per denom
+  fee: { amount: Coin[]; gasLimit: string; payer?: string; granter?: string };
+}
+
+// Body of POST /v1/sign; binary sign doc fields are base64
+export interface RemoteSignRequest {
+  signerAddress: string;
+  signDoc: { bodyBytes: string; authInfoBytes: string; chainId: string; accountNumber: string };
+  summary: SignDocSummary;
+}
+
+export interface RemoteSignerOptions {
+  url: string; // http(s)://host:port or unix:/path/to/signer.sock
+  token?: string;
+  timeoutSeconds: number;
+}
+
+const registry = new Registry([
+  ...defaultRegistryTypes,
+  ['/cosmwasm.wasm.v1.MsgExecuteContract', MsgExecuteContract],
+]);
+
+// Sums every { denom, amount } in the decoded messages; contract msg bytes are not searched
+function collectCoins(values: unknown[]): Coin[] {
+  const totals = new Map<string, bigint>();
+  const visit = (value: unknown) => {
+    if (!value || typeof value !== 'object' || value instanceof Uint8Array) return;
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    const { denom, amount } = value as Record<string, unknown>;
+    if (typeof denom === 'string' && typeof amount === 'string' && /^\d+$/.test(amount)) {
+      totals.set(denom, (totals.get(denom) || BigInt(0)) + BigInt(amount));
+      return;
+    }
+    Object.values(value).forEach(visit);
+  };
+  values.forEach(visit);
+
+  return [...totals].map(([denom, amount]) => ({ denom, amount: amount.toString() }));
+}
+
+// JSON-safe copy: bigints as strings, bytes as parsed JSON (contract messages) or base64
+function toPlain(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (value instanceof Uint8Array) {
+    try {
+      return JSON.parse(Buffer.from(value).toString('utf-8'));
+    } catch {
+      return toBase64(value);
+    }
+  }
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toPlain(entry)]));
+  }
+  return value;
+}
+
+export function summarizeSignDoc(signDoc: SignDoc, signerAddress: string): SignDocSummary {
+  const body = TxBody.decode(signDoc.bodyBytes);
+  const authInfo = AuthInfo.decode(signDoc.authInfoBytes);
+
+  const decoded = body.messages.map(message => {
+    try {
+      return { typeUrl: message.typeUrl, value: registry.decode(message) };
+    } catch {
+      return { typeUrl: message.typeUrl, value: undefined };
+    }
+  });
+
+  return {
+    chainId: signDoc.chainId,
+    signerAddress,
+    accountNumber: signDoc.accountNumber.toString(),
+    sequence: String(authInfo.signerInfos[0]?.sequence ?? 0),
+    memo: body.memo,
+    messages: decoded.map((message, idx) => ({
+      typeUrl: message.typeUrl,
+      value: message.value !== undefined ? toPlain(message.value) : toBase64(body.messages[idx].value),
+    })),
+    amounts: collectCoins(decoded.map(message => message.value)),
+    fee: {
+      amount: (authInfo.fee?.amount || []).map(({ denom, amount }) => ({ denom, amount })),
+      gasLimit: String(authInfo.fee?.gasLimit ?? 0),
+      payer: authInfo.fee?.payer || undefined,
+      granter: authInfo.fee?.granter || undefined,
+    },
+  };
+}
+
+/**
+ * Signs through a separate signer daemon so the key never enters this process.
+ * JSON over HTTP or a Unix socket, with `Authorization: Bearer <token>` when set:
+ *
+ *   GET  /v1/pubkey  { "pubkey": "<base64 secp256k1 public key>" }
+ *   POST /v1/sign    RemoteSignRequest → { "signature": "<base64 64-byte r||s>" }
+ *
+ * The signature is over sha256 of the SignDoc bytes. A daemon refuses with a
+ * non-2xx status and `{ "error": "..." }`. Addresses for every chain are derived
+ * from the one public key, and each signature is verified against it before use.
+ */
+export class RemoteSignerProvider implements SignerProvider {
+  readonly name = 'remote';
+  private baseUrl: string;
+  private socketPath?: string;
+  private pubkey: Promise<Uint8Array> | null = null;
+  private signers: Map<string, OfflineDirectSigner> = new Map();
+
+  constructor(private options: RemoteSignerOptions) {
+    if (options.url.startsWith('unix:')) {
+      this.baseUrl = 'http://localhost';
+      this.socketPath = options.url.slice('unix:'.length).replace(/^\/\/(?=\/)/, '');
+    } else {
+      this.baseUrl = options.url.replace(/\/+$/, '');
+    }
+  }
+
+  async getSigner(prefix: string): Promise<OfflineDirectSigner> {
+    if (!this.pubkey) {
+      this.pubkey = this.fetchPubkey();
+      this.pubkey.catch(() => { this.pubkey = null; });
+    }
+    const pubkey = await this.pubkey;
+
+    let signer = this.signers.get(prefix);
+    if (!signer) {
+      const address = toBech32(prefix, rawSecp256k1PubkeyToRawAddress(pubkey));
+      signer = {
+        getAccounts: async (): Promise<readonly AccountData[]> => [{ address, algo: 'secp256k1', pubkey }],
+        signDirect: (signerAddress, signDoc) => this.sign(address, pubkey, signerAddress, signDoc),
+      };
+      this.signers.set(prefix, signer);
+    }
+    return signer;
+  }
+
+  private async fetchPubkey(): Promise<Uint8Array> {
+    const { pubkey } = await this.request<{ pubkey?: string }>('GET', '/v1/pubkey');
+    const bytes = pubkey ? fromBase64(pubkey) : new Uint8Array();
+    if (bytes.length === 65) {
+      return Secp256k1.compressPubkey(bytes);
+    }
+    if (bytes.length !== 33) {
+      throw new Error(`Remote signer returned an invalid secp256k1 public key (${bytes.length} bytes)`);
+    }
+    return bytes;
+  }
+
+  private async sign(address: string, pubkey: Uint8Array, signerAddress: string, signDoc: SignDoc): Promise<DirectSignResponse> {
+    if (signerAddress !== address) {
+      throw new Error(`Remote signer holds ${address}, cannot sign for ${signerAddress}`);
+    }
+
+    const body: RemoteSignRequest = {
+      signerAddress,
+      signDoc: {
+        bodyBytes: toBase64(signDoc.bodyBytes),
+        authInfoBytes: toBase64(signDoc.authInfoBytes),
+        chainId: signDoc.chainId,
+        accountNumber: signDoc.accountNumber.toString(),
+      },
+      summary: summarizeSignDoc(signDoc, signerAddress),
+    };
+    const { signature } = await this.request<{ signature?: string }>('POST', '/v1/sign', body);
+
+    const signatureBytes = signature ? fromBase64(signature) : new Uint8Array();
+    const valid = signatureBytes.length === 64 && await Secp256k1.verifySignature(
+      Secp256k1Signature.fromFixedLength(signatureBytes),
+      sha256(makeSignBytes(signDoc)),
+      pubkey
+    );
+    if (!valid) {
+      throw new Error(`Remote signer returned an invalid signature for ${signDoc.chainId}`);
+    }
+
+    return { signed: signDoc, signature: encodeSecp256k1Signature(pubkey, signatureBytes) };
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, data?: unknown): Promise<T> {
+    try {
+      const response = await axios.request<T>({
+        method,
+        url: `${this.baseUrl}${path}`,
+        data,
+        socketPath: this.socketPath,
+        timeout: this.options.timeoutSeconds * 1000,
+        headers: this.options.token ? { Authorization: `Bearer ${this.options.token}` } : undefined,
+      });
+      return response.data;
+    } catch (error: any) {
+      const reason = error.response?.data?.error;
+      throw new Error(reason
+        ? `Remote signer refused: ${reason}`
+        : `Remote signer request ${method} ${path} failed: ${error.message || error}`);
+    }
+  }
+}
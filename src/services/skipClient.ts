@@ -1,8 +1,41 @@
 import { SkipClient } from '@skip-go/client';
-import { config, swapConfig } from '../config';
+import { config, swapConfig, swapJobs } from '../config';
+import { ChainTransaction, RouteFee, RoutePreview, RouteStep, SwapConfig } from '../types';
+import { getChainDisplayName } from '../utils/chains';
 import { logger } from '../utils/logger';
 import { WalletManager } from './walletManager';
 
+export interface SwapProgress {
+  chainTransactions: ChainTransaction[];
+  trackingState?: string;
+}
+
+export type SwapStatus = 'completed' | 'failed' | 'in_progress' | 'abandoned';
+
+// Final result of a route once it stops moving
+export interface SwapOutcome {
+  success: boolean;
+  amountOut?: string;
+  chainTransactions: ChainTransaction[];
+  error?: string;
+}
+
+export interface SwapExecutionResult extends SwapOutcome {
+  dryRun?: boolean;
+  txHash?: string;
+  result?: any;
+  // Set when timeoutMinutes elapsed first: the route keeps executing and
+  // `completion` settles with its real outcome
+  timedOut?: boolean;
+  completion?: Promise<SwapOutcome>;
+}
+
+const SETTLEMENT_POLL_INTERVAL_MS = 30 * 1000;
+
+// Skip route operation types that move funds between chains rather than swapping
+const TRANSFER_OPERATIONS = ['transfer', 'bankSend', 'axelarTransfer', 'cctpTransfer', 'hyperlaneTransfer', 'opInitTransfer', 'goFastTransfer', 'eurekaTransfer'];
+const SWAP_OPERATIONS = ['swap', 'evmSwap'];
+
 export class SkipSwapService {
   private skipClient: SkipClient;
   private walletManager: WalletManager;
@@ -26,6 +59,18 @@ export class SkipSwapService {
       }
     };
 
+    // Source chains of additional swap jobs (e.g. cosmoshub-4 for ATOM jobs)
+    for (const job of swapJobs) {
+      if (!clientConfig.endpointOptions.endpoints[job.sourceChainId]) {
+        clientConfig.endpointOptions.endpoints[job.sourceChainId] = { rpc: job.sourceRpcUrl };
+      }
+    }
+
+    if (config.skipApiUrl) {
+      clientConfig.apiURL = config.skipApiUrl;
+      logger.info(`Skip client using API URL ${config.skipApiUrl}`);
+    }
+
     if (config.skipApiKey) {
       clientConfig.apiKey = config.skipApiKey;
       logger.info('Skip client initialized with API key');
@@ -36,24 +81,27 @@ export class SkipSwapService {
     this.skipClient = new SkipClient(clientConfig);
   }
 
-  async getRoute(amountIn: string) {
+  async getRoute(amountIn: string, job: SwapConfig = swapConfig) {
     try {
       logger.info('Getting swap route', {
-        from: `${amountIn} ${swapConfig.sourceAsset}`,
-        to: swapConfig.destAsset,
+        job: job.name,
+        from: `${amountIn} ${job.sourceAsset}`,
+        to: job.destAsset,
       });
 
       const route = await this.skipClient.route({
-        sourceAssetDenom: swapConfig.sourceAsset,
-        sourceAssetChainID: swapConfig.sourceChainId,
-        destAssetDenom: swapConfig.destAsset,
-        destAssetChainID: swapConfig.destChainId,
+        sourceAssetDenom: job.sourceAsset,
+        sourceAssetChainID: job.sourceChainId,
+        destAssetDenom: job.destAsset,
+        destAssetChainID: job.destChainId,
         amountIn,
         smartRelay: true,
-        allowMultiTx: true,
-        allowUnsafe: true, // Allow routes with bridge fees
+        allowMultiTx: config.routePolicy.maxTxs !== 1,
+        allowUnsafe: config.routePolicy.allowUnsafe, // Allow routes with bridge fees
+        // Ask Skip for compliant routes up front; RoutePolicy still checks the result
+        ...(config.routePolicy.allowedBridges.length > 0 ? { bridges: config.routePolicy.allowedBridges } : {}),
         smartSwapOptions: {
-          slippageTolerancePercent: (swapConfig.maxSlippage * 100).toString(),
+          slippageTolerancePercent: (job.maxSlippage * 100).toString(),
           evmSwaps: true, // Enable EVM swaps for Base L2 routing
           splitRoutes: true,
         }
@@ -79,7 +127,91 @@ export class SkipSwapService {
     }
   }
 
-  async executeSwap(route: any, dryRun: boolean = false) {
+  // Describes every operation of a route and the addresses it would use. Signs nothing.
+  async previewRoute(route: any, job: SwapConfig, fees: RouteFee[]): Promise<RoutePreview> {
+    const preview = this.describeRoute(route, fees);
+
+    // Addresses are derived from the wallet; a chain we can't derive one for is still listed
+    for (const entry of preview.requiredChainAddresses) {
+      try {
+        entry.address = await this.getUserAddress(entry.chainId, job);
+      } catch (error: any) {
+        logger.warn(`Could not derive an address for ${entry.chainId}: ${error.message || error}`);
+      }
+    }
+
+    return preview;
+  }
+
+  // The route's operations and totals as reported by Skip, without resolving addresses
+  describeRoute(route: any, fees: RouteFee[]): RoutePreview {
+    const steps: RouteStep[] = route.operations.map((operation: any, index: number) => {
+      const stepFees = fees.filter(fee => fee.operationIndex === index);
+      const swapKey = SWAP_OPERATIONS.find(key => operation[key]);
+      if (swapKey) {
+        const swap = operation[swapKey];
+        const exact = swap.swapIn || swap.swapOut || swap.smartSwapIn;
+        const venues: any[] = swap.swapVenues?.length ? swap.swapVenues : exact?.swapVenue ? [exact.swapVenue] : [];
+        return {
+          index,
+          txIndex: operation.txIndex,
+          operation: swapKey,
+          action: 'swap',
+          fromChainId: swap.fromChainID || swap.chainID,
+          toChainId: swap.chainID || swap.fromChainID,
+          denomIn: swap.denomIn,
+          denomOut: swap.denomOut,
+          amountIn: operation.amountIn,
+          amountOut: operation.amountOut,
+          venues: venues.map(venue => venue.name),
+          priceImpactPercent: exact?.priceImpactPercent !== undefined ? parseFloat(exact.priceImpactPercent) : undefined,
+          fees: stepFees,
+        };
+      }
+
+      const transferKey = TRANSFER_OPERATIONS.find(key => operation[key]) || Object.keys(operation).find(key => typeof operation[key] === 'object');
+      const transfer = operation[transferKey || ''] || {};
+      return {
+        index,
+        txIndex: operation.txIndex,
+        operation: transferKey || 'unknown',
+        action: 'transfer',
+        fromChainId: transfer.fromChainID || transfer.chainID,
+        toChainId: transfer.toChainID || transfer.chainID,
+        denomIn: transfer.denomIn || transfer.denom,
+        denomOut: transfer.denomOut || transfer.denom,
+        amountIn: operation.amountIn,
+        amountOut: operation.amountOut,
+        venues: [],
+        bridge: transfer.bridgeID,
+        fees: stepFees,
+      };
+    });
+
+    const optionalNumber = (value?: string) => value !== undefined && value !== '' ? parseFloat(value) : undefined;
+
+    return {
+      steps,
+      chainIds: route.chainIDs || [],
+      requiredChainAddresses: (route.requiredChainAddresses || []).map((chainId: string) => ({ chainId })),
+      txsRequired: route.txsRequired,
+      estimatedDurationSeconds: route.estimatedRouteDurationSeconds,
+      priceImpactPercent: optionalNumber(route.swapPriceImpactPercent),
+      usdAmountIn: optionalNumber(route.usdAmountIn),
+      usdAmountOut: optionalNumber(route.usdAmountOut),
+      warning: route.warning ? { type: route.warning.type, message: route.warning.message } : undefined,
+      fees,
+    };
+  }
+
+  async executeSwap(
+    route: any,
+    dryRun: boolean = false,
+    job: SwapConfig = swapConfig,
+    onProgress?: (progress: SwapProgress) => Promise<void>
+  ): Promise<SwapExecutionResult> {
+    let timer: NodeJS.Timeout | undefined;
+
     try {
       if (dryRun) {
         logger.info('DRY RUN: Would execute swap', {
@@ -97,14 +229,24 @@ export class SkipSwapService {
 
       logger.info('Executing swap...');
 
-      const userAddresses = await this.getUserAddresses(route);
-      const chainTransactions: Array<{ chainId: string; txHash: string; status: string; timestamp: string }> = [];
+      const userAddresses = await this.getUserAddresses(route, job);
+      const chainTransactions: ChainTransaction[] = [];
       let actualAmountOut: string | undefined;
 
-      // Create timeout promise
-      const timeoutMs = swapConfig.timeoutMinutes * 60 * 1000;
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error(`Swap execution timed out after ${swapConfig.timeoutMinutes} minutes`)), timeoutMs);
+      // Journal failures must never abort an in-flight swap
+      const reportProgress = async (trackingState?: string) => {
+        if (!onProgress) return;
+        try {
+          await onProgress({ chainTransactions: [...chainTransactions], trackingState });
+        } catch (error: any) {
+          logger.error(`Failed to record swap progress: ${error.message || error}`);
+        }
+      };
+
+      // Timing out only stops waiting; executeRoute keeps going and is tracked via `completion`
+      const timeoutMs = job.timeoutMinutes * 60 * 1000;
+      const timeoutPromise = new Promise<'timeout'>(resolve => {
+        timer = setTimeout(() => resolve('timeout'), timeoutMs);
       });
 
       // Execute route with timeout
@@ -130,6 +272,7 @@ export class SkipSwapService {
               timestamp: new Date().toISOString(),
             });
           }
+          await reportProgress();
         },
         onTransactionBroadcast: async (txInfo: { txHash: string; chainID: string }) => {
           console.log('\n📡 Transaction Broadcast');
@@ -145,6 +288,7 @@ export class SkipSwapService {
             status: 'broadcast',
             timestamp: new Date().toISOString(),
           });
+          await reportProgress();
         },
         onTransactionTracked: async (txInfo: any) => {
           console.log('\n🔍 Transaction Tracking Update');
@@ -162,6 +306,7 @@ export class SkipSwapService {
           }
           console.log('');
           logger.info('🔍 Transaction tracked', { state: txInfo.state, actualAmountOut });
+          await reportProgress(txInfo.state);
         },
         getCosmosSigner: async (chainId: string) => {
           return await this.walletManager.getCosmosSignerForChain(chainId);
@@ -170,6 +315,30 @@ export class SkipSwapService {
 
       const result = await Promise.race([executePromise, timeoutPromise]);
 
+      if (result === 'timeout') {
+        logger.warn(`Swap execution exceeded ${job.timeoutMinutes} minutes, continuing to track in background`);
+        const completion: Promise<SwapOutcome> = executePromise.then(
+          () => ({
+            success: true,
+            chainTransactions,
+            amountOut: actualAmountOut || route.amountOut,
+          }),
+          (error: any) => ({
+            success: false,
+            chainTransactions,
+            error: String(error?.message || error),
+          })
+        );
+
+        return {
+          success: false,
+          timedOut: true,
+          completion,
+          chainTransactions: [...chainTransactions],
+          amountOut: route.amountOut,
+        };
+      }
+
       logger.info('Swap executed successfully', result);
       return {
         success: true,
@@ -180,45 +349,120 @@ export class SkipSwapService {
     } catch (error: any) {
       logger.error(`Failed to execute swap: ${error.message || error}`);
       throw error;
+    } finally {
+      clearTimeout(timer);
     }
   }
 
-  private async getUserAddresses(route: any): Promise<Array<{chainID: string, address: string}>> {
+  // Polls Skip's status API for already-broadcast transactions (e.g. after a restart)
+  // until they all settle or maxWaitMs passes. Never rejects.
+  async waitForSettlement(chainTransactions: ChainTransaction[], maxWaitMs: number): Promise<SwapOutcome & { settled: boolean }> {
+    const deadline = Date.now() + maxWaitMs;
+
+    while (true) {
+      try {
+        const statuses = await Promise.all(
+          chainTransactions.map(tx => this.getTransactionStatus(tx.chainId, tx.txHash))
+        );
+
+        const failed = statuses.find(result => result.status === 'failed');
+        if (failed) {
+          return { settled: true, success: false, chainTransactions, error: failed.error || `Skip reported ${failed.state}` };
+        }
+        if (statuses.every(result => result.status === 'completed')) {
+          return { settled: true, success: true, chainTransactions };
+        }
+        if (statuses.some(result => result.status === 'abandoned')) {
+          return { settled: false, success: false, chainTransactions, error: 'Skip stopped tracking the route (STATE_ABANDONED)' };
+        }
+      } catch (error: any) {
+        logger.warn(`Status check failed, will retry: ${error.message || error}`);
+      }
+
+      if (Date.now() >= deadline) {
+        return { settled: false, success: false, chainTransactions, error: 'Still unresolved when background tracking gave up' };
+      }
+      await new Promise(resolve => setTimeout(resolve, SETTLEMENT_POLL_INTERVAL_MS));
+    }
+  }
+
+  // Registers a broadcast transaction with Skip's tracker, which the status API needs for
+  // hashes executeRoute never tracked (e.g. a crash right after broadcast). A hash Skip
+  // already tracks may be refused; that is left to the status query to sort out.
+  async trackTransaction(chainId: string, txHash: string): Promise<void> {
+    try {
+      await this.skipClient.trackTransaction({
+        chainID: chainId,
+        txHash,
+        options: { retry: { maxRetries: 2 } },
+      });
+    } catch (error: any) {
+      logger.debug(`Skip did not register ${chainId} transaction ${txHash} for tracking: ${error.message || error}`);
+    }
+  }
+
+  // Route-level status of a broadcast transaction, as reported by Skip's status API
+  async getTransactionStatus(chainId: string, txHash: string): Promise<{ status: SwapStatus; state: string; error?: string }> {
+    const response = await this.skipClient.transactionStatus({
+      chainID: chainId,
+      txHash,
+      options: { retry: { maxRetries: 2 } },
+    });
+
+    const state = response.state || response.status;
+    let status: SwapStatus;
+    switch (state) {
+      case 'STATE_COMPLETED_SUCCESS':
+        status = 'completed';
+        break;
+      case 'STATE_COMPLETED_ERROR':
+      case 'STATE_PENDING_ERROR':
+        status = 'failed';
+        break;
+      case 'STATE_ABANDONED':
+        status = 'abandoned';
+        break;
+      default:
+        status = 'in_progress';
+    }
+
+    return { status, state, error: response.error?.message };
+  }
+
+  private async getUserAddresses(route: any, job: SwapConfig): Promise<Array<{chainID: string, address: string}>> {
     const addresses: Array<{chainID: string, address: string}> = [];
 
     for (const chain of route.requiredChainAddresses) {
-      if (chain.includes('kyve')) {
-        addresses.push({
-          chainID: chain,
-          address: this.walletManager.getKyveAddress()
-        });
-      } else if (chain === '8453') {
-        // Base L2
-        addresses.push({
-          chainID: chain,
-          address: this.walletManager.getBaseAddress()
-        });
-      } else if (chain === '1' || chain.includes('evm') || chain.includes('ethereum')) {
-        // Ethereum L1 or other EVM chains
-        addresses.push({
-          chainID: chain,
-          address: this.walletManager.getEthereumAddress()
-        });
-      } else {
-        // Other Cosmos chains
-        const signer = await this.walletManager.getCosmosSignerForChain(chain);
-        const accounts = await signer.getAccounts();
-        addresses.push({
-          chainID: chain,
-          address: accounts[0].address
-        });
-      }
+      addresses.push({
+        chainID: chain,
+        address: await this.getUserAddress(chain, job),
+      });
     }
 
     logger.debug('User addresses prepared:', addresses);
     return addresses;
   }
 
+  private async getUserAddress(chain: string, job: SwapConfig): Promise<string> {
+    if (chain === job.destChainId && job.destAddress) {
+      // Job-specific destination address takes precedence
+      return job.destAddress;
+    } else if (chain.includes('kyve')) {
+      return this.walletManager.getKyveAddress();
+    } else if (chain === '8453') {
+      // Base L2
+      return this.walletManager.getBaseAddress();
+    } else if (chain === '1' || chain.includes('evm') || chain.includes('ethereum')) {
+      // Ethereum L1 or other EVM chains
+      return this.walletManager.getEthereumAddress();
+    }
+
+    // Other Cosmos chains
+    const signer = await this.walletManager.getCosmosSignerForChain(chain);
+    const accounts = await signer.getAccounts();
+    return accounts[0].address;
+  }
+
   async getChainInfo(chainId: string) {
     try {
       const chains = await this.skipClient.chains();
@@ -246,26 +490,27 @@ export class SkipSwapService {
     }
   }
 
-  async validateSwapPair(): Promise<boolean> {
+  async validateSwapPair(job: SwapConfig = swapConfig): Promise<boolean> {
     try {
-      // Only validate source chain (KYVE) since destination (Base L2) is EVM and won't appear in chains() list
-      const kyveChain = await this.getChainInfo(swapConfig.sourceChainId);
+      // Only validate source chain since EVM destinations won't appear in chains() list
+      const sourceChain = await this.getChainInfo(job.sourceChainId);
 
-      if (!kyveChain) {
-        logger.error(`Chain ${swapConfig.sourceChainId} not supported by Skip`);
+      if (!sourceChain) {
+        logger.error(`Chain ${job.sourceChainId} not supported by Skip`);
         return false;
       }
 
-      const kyveAsset = await this.getAssetInfo(swapConfig.sourceChainId, swapConfig.sourceAsset);
+      const sourceAsset = await this.getAssetInfo(job.sourceChainId, job.sourceAsset);
 
-      if (!kyveAsset) {
-        logger.error(`Asset ${swapConfig.sourceAsset} not found on ${swapConfig.sourceChainId}`);
+      if (!sourceAsset) {
+        logger.error(`Asset ${job.sourceAsset} not found on ${job.sourceChainId}`);
         return false;
       }
 
       logger.info('Swap pair validated successfully', {
-        source: `${kyveAsset.symbol} on ${kyveChain.chainName}`,
-        dest: `USDC on Base L2 (chainID: ${swapConfig.destChainId})`,
+        job: job.name,
+        source: `${sourceAsset.symbol} on ${sourceChain.chainName}`,
+        dest: `${job.destSymbol} on ${getChainDisplayName(job.destChainId)} (chainID: ${job.destChainId})`,
       });
 
       return true;
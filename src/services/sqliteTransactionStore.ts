@@ -0,0 +1,324 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { RewardClaim, SkippedSwap, SwapTransaction } from '../types';
+import { logger } from '../utils/logger';
+import {
+  parseTransactionsFile,
+  PENDING_STATUSES,
+  REWARD_CLAIMS_FILE,
+  toStoredTransaction,
+  TRANSACTIONS_FILE,
+  TransactionQuery,
+  TransactionStore,
+} from './transactionStore';
+
+interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Applied in order, each in its own transaction. Never edit a released migration;
+// add a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_transactions',
+    sql: `
+      CREATE TABLE transactions (
+        id TEXT PRIMARY KEY,
+        job_name TEXT NOT NULL DEFAULT 'default',
+        parent_id TEXT,
+        timestamp TEXT NOT NULL,
+        status TEXT NOT NULL,
+        from_chain_id TEXT NOT NULL,
+        to_chain_id TEXT NOT NULL,
+        tx_hash TEXT,
+        updated_at TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_transactions_timestamp ON transactions (timestamp);
+      CREATE INDEX idx_transactions_status ON transactions (status, timestamp);
+      CREATE INDEX idx_transactions_from_chain ON transactions (from_chain_id, timestamp);
+      CREATE INDEX idx_transactions_to_chain ON transactions (to_chain_id, timestamp);
+      CREATE INDEX idx_transactions_job ON transactions (job_name, timestamp);
+      CREATE INDEX idx_transactions_parent ON transactions (parent_id);
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_reward_claims',
+    sql: `
+      CREATE TABLE reward_claims (
+        id TEXT PRIMARY KEY,
+        job_name TEXT,
+        timestamp TEXT NOT NULL,
+        status TEXT NOT NULL,
+        tx_hash TEXT,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_reward_claims_timestamp ON reward_claims (timestamp);
+    `,
+  },
+  {
+    version: 3,
+    name: 'create_skipped_swaps',
+    sql: `
+      CREATE TABLE skipped_swaps (
+        id TEXT PRIMARY KEY,
+        job_name TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        reason TEXT NOT NULL
+      );
+      CREATE INDEX idx_skipped_swaps_timestamp ON skipped_swaps (timestamp);
+    `,
+  },
+];
+
+/**
+ * SQLite-backed store (a single file, no server). The indexed columns mirror
+ * fields of the JSON record kept in `data`, which stays the source of truth.
+ */
+export class SqliteTransactionStore implements TransactionStore {
+  readonly backend = 'sqlite';
+  private database: Database.Database | null = null;
+
+  constructor(private dbPath: string) {}
+
+  async ready(): Promise<void> {
+    this.open();
+  }
+
+  private get db(): Database.Database {
+    return this.open();
+  }
+
+  // Opened on first use, so commands that never read history (config validate) leave the file alone
+  private open(): Database.Database {
+    if (this.database) {
+      return this.database;
+    }
+
+    fs.mkdirSync(path.dirname(this.dbPath), { recursive: true });
+    this.database = new Database(this.dbPath);
+    this.database.pragma('journal_mode = WAL');
+    this.database.pragma('busy_timeout = 5000');
+
+    this.migrate();
+    logger.info(`Using SQLite transaction store at ${this.dbPath} (${this.count()} transactions)`);
+    return this.database;
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at TEXT NOT NULL
+      )
+    `);
+
+    const row = this.db.prepare('SELECT MAX(version) AS version FROM schema_migrations').get() as { version: number | null };
+    const current = row.version || 0;
+
+    for (const migration of MIGRATIONS.filter(m => m.version > current)) {
+      this.db.transaction(() => {
+        this.db.exec(migration.sql);
+        this.db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+          .run(migration.version, migration.name, new Date().toISOString());
+      })();
+      logger.info(`Applied database migration ${migration.version}: ${migration.name}`);
+    }
+  }
+
+  // One-time import of transactions.json and reward_claims.json, each into its still
+  // empty table. The files are renamed to *.imported afterwards so it never repeats.
+  async importLegacyFiles(): Promise<void> {
+    if (this.count() === 0 && fs.existsSync(TRANSACTIONS_FILE)) {
+      const { imported, skipped } = this.importRecords(TRANSACTIONS_FILE);
+      fs.renameSync(TRANSACTIONS_FILE, `${TRANSACTIONS_FILE}.imported`);
+      logger.info(`Imported ${imported} transactions from ${TRANSACTIONS_FILE} (${skipped} already present)`);
+    }
+
+    if (this.getRewardClaims().length === 0 && fs.existsSync(REWARD_CLAIMS_FILE)) {
+      const claims: RewardClaim[] = JSON.parse(fs.readFileSync(REWARD_CLAIMS_FILE, 'utf-8'));
+      this.db.transaction(() => claims.forEach(claim => this.writeRewardClaim(claim, true)))();
+      fs.renameSync(REWARD_CLAIMS_FILE, `${REWARD_CLAIMS_FILE}.imported`);
+      logger.info(`Imported ${claims.length} reward claims from ${REWARD_CLAIMS_FILE}`);
+    }
+  }
+
+  async importFromJson(filePath: string): Promise<{ imported: number; skipped: number }> {
+    return this.importRecords(filePath);
+  }
+
+  private importRecords(filePath: string): { imported: number; skipped: number } {
+    const records = parseTransactionsFile(fs.readFileSync(filePath, 'utf-8'), filePath);
+
+    let imported = 0;
+    this.db.transaction(() => {
+      for (const record of records) {
+        if (!this.get(record.id)) {
+          this.write(record);
+          imported++;
+        }
+      }
+    })();
+
+    return { imported, skipped: records.length - imported };
+  }
+
+  private write(transaction: SwapTransaction): void {
+    const stored = toStoredTransaction(transaction);
+    this.db.prepare(`
+      INSERT INTO transactions (id, job_name, parent_id, timestamp, status, from_chain_id, to_chain_id, tx_hash, updated_at, data)
+      VALUES (@id, @jobName, @parentId, @timestamp, @status, @fromChainId, @toChainId, @txHash, @updatedAt, @data)
+      ON CONFLICT (id) DO UPDATE SET
+        job_name = excluded.job_name,
+        parent_id = excluded.parent_id,
+        timestamp = excluded.timestamp,
+        status = excluded.status,
+        from_chain_id = excluded.from_chain_id,
+        to_chain_id = excluded.to_chain_id,
+        tx_hash = excluded.tx_hash,
+        updated_at = excluded.updated_at,
+        data = excluded.data
+    `).run({
+      id: stored.id,
+      jobName: stored.jobName || 'default',
+      parentId: stored.parentId || null,
+      timestamp: new Date(stored.timestamp).toISOString(),
+      status: stored.status,
+      fromChainId: stored.fromChainId,
+      toChainId: stored.toChainId,
+      txHash: stored.txHash || null,
+      updatedAt: stored.updatedAt || null,
+      data: JSON.stringify(stored),
+    });
+  }
+
+  async upsert(transaction: SwapTransaction): Promise<void> {
+    this.write(transaction);
+  }
+
+  // Read-check-write in one transaction, so a late progress callback can never
+  // overwrite a record that has already been finalized
+  async savePending(transaction: SwapTransaction): Promise<boolean> {
+    return this.db.transaction(() => {
+      const existing = this.db.prepare('SELECT status FROM transactions WHERE id = ?').get(transaction.id) as { status: string } | undefined;
+      if (existing && !PENDING_STATUSES.includes(existing.status as SwapTransaction['status'])) {
+        return false;
+      }
+      this.write(transaction);
+      return true;
+    })();
+  }
+
+  get(id: string): SwapTransaction | undefined {
+    const row = this.db.prepare('SELECT data FROM transactions WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  query(query: TransactionQuery = {}): SwapTransaction[] {
+    const { where, params } = this.buildWhere(query);
+    let sql = `SELECT data FROM transactions ${where} ORDER BY timestamp ${query.order === 'desc' ? 'DESC' : 'ASC'}, rowid`;
+
+    if (query.limit !== undefined) {
+      sql += ' LIMIT @limit OFFSET @offset';
+      params.limit = query.limit;
+      params.offset = query.offset || 0;
+    } else if (query.offset) {
+      sql += ' LIMIT -1 OFFSET @offset';
+      params.offset = query.offset;
+    }
+
+    const rows = this.db.prepare(sql).all(params) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  count(query: TransactionQuery = {}): number {
+    const { where, params } = this.buildWhere(query);
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM transactions ${where}`).get(params) as { count: number };
+    return row.count;
+  }
+
+  private buildWhere(query: TransactionQuery): { where: string; params: Record<string, any> } {
+    const clauses: string[] = [];
+    const params: Record<string, any> = {};
+
+    if (query.jobName) {
+      clauses.push('job_name = @jobName');
+      params.jobName = query.jobName;
+    }
+    if (query.status && query.status.length > 0) {
+      const names = query.status.map((status, i) => {
+        params[`status${i}`] = status;
+        return `@status${i}`;
+      });
+      clauses.push(`status IN (${names.join(', ')})`);
+    }
+    if (query.chainId) {
+      clauses.push('(from_chain_id = @chainId OR to_chain_id = @chainId)');
+      params.chainId = query.chainId;
+    }
+    if (query.from) {
+      clauses.push('timestamp >= @from');
+      params.from = query.from.toISOString();
+    }
+    if (query.to) {
+      clauses.push('timestamp <= @to');
+      params.to = query.to.toISOString();
+    }
+    if (query.parentId) {
+      clauses.push('parent_id = @parentId');
+      params.parentId = query.parentId;
+    }
+    if (query.topLevelOnly) {
+      clauses.push('parent_id IS NULL');
+    }
+
+    return { where: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  }
+
+  private writeRewardClaim(claim: RewardClaim, ignoreExisting: boolean = false): void {
+    this.db.prepare(`
+      INSERT ${ignoreExisting ? 'OR IGNORE ' : ''}INTO reward_claims (id, job_name, timestamp, status, tx_hash, data)
+      VALUES (@id, @jobName, @timestamp, @status, @txHash, @data)
+    `).run({
+      id: claim.id,
+      jobName: claim.jobName || null,
+      timestamp: claim.timestamp,
+      status: claim.status,
+      txHash: claim.txHash || null,
+      data: JSON.stringify(claim),
+    });
+  }
+
+  async addRewardClaim(claim: RewardClaim): Promise<void> {
+    this.writeRewardClaim(claim);
+  }
+
+  getRewardClaims(): RewardClaim[] {
+    const rows = this.db.prepare('SELECT data FROM reward_claims ORDER BY timestamp').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  async addSkippedSwap(skip: SkippedSwap): Promise<void> {
+    this.db.prepare('INSERT INTO skipped_swaps (id, job_name, timestamp, reason) VALUES (@id, @jobName, @timestamp, @reason)')
+      .run(skip);
+  }
+
+  getSkippedSwaps(from?: Date, to?: Date): SkippedSwap[] {
+    return this.db.prepare(`
+      SELECT id, job_name AS jobName, timestamp, reason FROM skipped_swaps
+      WHERE (@from IS NULL OR timestamp >= @from) AND (@to IS NULL OR timestamp <= @to)
+      ORDER BY timestamp
+    `).all({ from: from?.toISOString() ?? null, to: to?.toISOString() ?? null }) as SkippedSwap[];
+  }
+
+  close(): void {
+    this.database?.close();
+    this.database = null;
+  }
+}
@@ -0,0 +1,193 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { FakeHttpServer, sendJson } from '../test/fakeHttpServer';
+import type { SwapOrchestrator } from './swapOrchestrator';
+import type { TransactionLogger } from './transactionLogger';
+import { SwapTransaction } from '../types';
+
+// Stand-in for Skip's /v2/tx/track and /v2/tx/status: a hash only has a status once it is tracked
+class FakeSkipApi {
+  calls: string[] = [];
+  tracked = new Set<string>();
+  states = new Map<string, string>();
+  unavailable = false;
+  readonly server = new FakeHttpServer((req, body, res) => this.handle(req, body, res));
+
+  private handle(req: http.IncomingMessage, body: string, res: http.ServerResponse): void {
+    const url = new URL(req.url!, 'http://localhost');
+
+    if (req.method === 'POST' && url.pathname === '/v2/tx/track') {
+      const { tx_hash: txHash } = JSON.parse(body);
+      this.calls.push(`track ${txHash}`);
+      if (this.tracked.has(txHash)) {
+        return sendJson(res, 400, { message: 'transaction is already being tracked' });
+      }
+      this.tracked.add(txHash);
+      return sendJson(res, 200, { tx_hash: txHash, explorer_link: '' });
+    }
+
+    if (req.method === 'GET' && url.pathname === '/v2/tx/status') {
+      const txHash = url.searchParams.get('tx_hash')!;
+      this.calls.push(`status ${txHash}`);
+      if (this.unavailable) {
+        return sendJson(res, 503, { message: 'service unavailable' });
+      }
+      if (!this.tracked.has(txHash)) {
+        return sendJson(res, 404, { message: 'transaction not found' });
+      }
+      const state = this.states.get(txHash) || 'STATE_PENDING';
+      return sendJson(res, 200, {
+        status: state.startsWith('STATE_COMPLETED') ? 'STATE_COMPLETED' : 'STATE_PENDING',
+        state,
+        transfer_sequence: [],
+        transfers: [],
+        error: state === 'STATE_COMPLETED_ERROR' ? { message: 'swap reverted' } : undefined,
+      });
+    }
+
+    sendJson(res, 404, { message: `no route for ${req.method} ${url.pathname}` });
+  }
+}
+
+function pendingSwap(id: string, txHash?: string): SwapTransaction {
+  const timestamp = new Date().toISOString();
+  return {
+    id,
+    jobName: 'default',
+    timestamp,
+    fromToken: 'KYVE',
+    toToken: 'USDC',
+    fromAmount: '1000000',
+    toAmount: '0',
+    fromChainId: 'kyve-1',
+    toChainId: '8453',
+    kyvePrice: 0.01,
+    usdcPrice: 1,
+    costBasisUSD: 0.01,
+    gasFeesUSD: 0,
+    effectiveRate: 0,
+    txHash: txHash || '',
+    status: 'pending',
+    chainTransactions: txHash ? [{ chainId: 'kyve-1', txHash, status: 'broadcast', timestamp }] : [],
+  };
+}
+
+describe('SwapOrchestrator reconciliation', () => {
+  const skip = new FakeSkipApi();
+  const cwd = process.cwd();
+  let dataDir: string;
+  let orchestrator: SwapOrchestrator;
+  let transactionLogger: TransactionLogger;
+  let notify: ReturnType<typeof jest.spyOn>;
+
+  beforeAll(async () => {
+    process.env.SKIP_API_URL = await skip.server.listen();
+    // Swap history, lots and logs go to data/ under the working directory
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kyve-swapper-test-'));
+    process.chdir(dataDir);
+
+    const { SwapOrchestrator } = await import('./swapOrchestrator');
+    orchestrator = new SwapOrchestrator();
+    transactionLogger = (orchestrator as any).transactionLogger;
+    notify = jest.spyOn((orchestrator as any).notificationService, 'notify') as any;
+  });
+
+  afterAll(async () => {
+    await skip.server.close();
+    process.chdir(cwd);
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    skip.calls = [];
+    notify.mockClear();
+  });
+
+  it('registers journaled hashes with Skip before querying their status', async () => {
+    await transactionLogger.savePending(pendingSwap('crashed-after-broadcast', 'HASH1'));
+    skip.states.set('HASH1', 'STATE_COMPLETED_ERROR');
+
+    await (orchestrator as any).reconcilePendingSwaps();
+
+    expect(skip.calls).toEqual(['track HASH1', 'status HASH1']);
+    expect(transactionLogger.getTransaction('crashed-after-broadcast')).toMatchObject({ status: 'failed', error: 'swap reverted' });
+  });
+
+  it('still resolves a hash Skip refuses to track again', async () => {
+    await transactionLogger.savePending(pendingSwap('already-tracked', 'HASH2'));
+    skip.tracked.add('HASH2');
+    skip.states.set('HASH2', 'STATE_COMPLETED_ERROR');
+
+    await (orchestrator as any).reconcilePendingSwaps();
+
+    expect(skip.calls).toContain('status HASH2');
+    expect(transactionLogger.getTransaction('already-tracked')?.status).toBe('failed');
+  });
+
+  it('marks records without broadcast transactions failed without asking Skip', async () => {
+    await transactionLogger.savePending(pendingSwap('never-broadcast'));
+
+    await (orchestrator as any).reconcilePendingSwaps();
+
+    expect(skip.calls).toEqual([]);
+    expect(transactionLogger.getTransaction('never-broadcast')).toMatchObject({ status: 'failed', error: 'Interrupted before broadcast' });
+  });
+
+  it('notifies about unresolved records and retries them before the next swap', async () => {
+    const job = (await import('../config')).swapConfig;
+    await transactionLogger.savePending(pendingSwap('skip-unreachable', 'HASH3'));
+    skip.unavailable = true;
+
+    await (orchestrator as any).reconcilePendingSwaps();
+    expect(transactionLogger.getTransaction('skip-unreachable')?.status).toBe('pending');
+    expect(notify).toHaveBeenCalledWith('swap_unresolved', 'error', expect.objectContaining({ job: 'default' }));
+
+    // Still unreachable: the run retries, then skips rather than risk a double swap
+    notify.mockClear();
+    expect(await orchestrator.executeSwap(job)).toBeNull();
+    expect(notify).toHaveBeenCalledWith('swap_unresolved', 'error', expect.anything());
+    expect(transactionLogger.getSkippedSwaps().map(skipped => skipped.reason)).toContain('unresolved_pending');
+
+    // Reachable again: the next run resolves the record and goes on to size a swap
+    skip.unavailable = false;
+    skip.states.set('HASH3', 'STATE_COMPLETED_ERROR');
+    jest.spyOn((orchestrator as any).walletManager, 'getSourceBalance').mockResolvedValue({ denom: 'ukyve', amount: '0' } as never);
+
+    expect(await orchestrator.executeSwap(job)).toBeNull();
+    expect(transactionLogger.getTransaction('skip-unreachable')?.status).toBe('failed');
+    expect(transactionLogger.getSkippedSwaps().map(skipped => skipped.reason)).toContain('no_balance');
+  });
+
+  it('treats jobs sharing a source chain as one account', async () => {
+    const job = (await import('../config')).swapConfig;
+    const first = { ...job, name: 'first' };
+    const second = { ...job, name: 'second' };
+
+    // A pending record left by one job holds off every job spending from the same chain
+    await transactionLogger.savePending(pendingSwap('other-job-pending', 'HASH4'));
+    skip.unavailable = true;
+    expect(await orchestrator.executeSwap(first)).toBeNull();
+    expect(transactionLogger.getSkippedSwaps().filter(skipped => skipped.jobName === 'first').map(skipped => skipped.reason))
+      .toEqual(['unresolved_pending']);
+
+    skip.unavailable = false;
+    skip.states.set('HASH4', 'STATE_COMPLETED_ERROR');
+
+    // Fired on the same tick, their swaps still run one after another
+    let active = 0;
+    let maxActive = 0;
+    jest.spyOn((orchestrator as any).walletManager, 'getSourceBalance').mockImplementation(async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      active--;
+      return { denom: 'ukyve', amount: '0' };
+    });
+
+    expect(await Promise.all([orchestrator.executeSwap(first), orchestrator.executeSwap(second)])).toEqual([null, null]);
+    expect(maxActive).toBe(1);
+    expect(transactionLogger.getTransaction('other-job-pending')?.status).toBe('failed');
+  });
+});
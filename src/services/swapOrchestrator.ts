@@ -1,20 +1,59 @@
 import { v4 as uuidv4 } from 'uuid';
 import { WalletManager } from './walletManager';
-import { SkipSwapService } from './skipClient';
+import { SkipSwapService, SwapOutcome, SwapProgress } from './skipClient';
 import { PriceService } from './priceService';
 import { TransactionLogger } from './transactionLogger';
 import { NotificationService } from './notificationService';
-import { swapConfig } from '../config';
-import { SwapTransaction } from '../types';
+import { FeeService, feesOnTopOfAmountOut, SwapFees } from './feeService';
+import { LotLedger, YearlyGains } from './lotLedger';
+import { ExportOptions } from './exporters';
+import { TransactionQuery } from './transactionStore';
+import { metrics, SwapSkipReason } from './metrics';
+import { RoutePolicy } from './routePolicy';
+import { PriceTrigger } from './priceTrigger';
+import { formatReportSummary, ReportFormat, reportRange, reportTitle, saveReport } from './reports';
+import { config, getSwapJob, overrideSwapJob, swapConfig, swapJobs } from '../config';
+import {
+  BotStatus,
+  ChainTransaction,
+  DestinationCandidate,
+  DestinationChoice,
+  HistoryPage,
+  LotMethod,
+  PerformanceReport,
+  PriceDeviationCheck,
+  RealizedGain,
+  ReportPairStats,
+  ReportPeriod,
+  RewardClaim,
+  SwapConfig,
+  SwapQuote,
+  SwapTransaction,
+  TaxLot,
+} from '../types';
+import { getChainDisplayName } from '../utils/chains';
 import { logger, logSwap } from '../utils/logger';
 
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// How long to keep polling Skip for swaps found in flight after a restart
+const BACKGROUND_TRACKING_MAX_MS = 6 * 60 * 60 * 1000;
+
 export class SwapOrchestrator {
   private walletManager: WalletManager;
   private skipService: SkipSwapService;
   private priceService: PriceService;
   private transactionLogger: TransactionLogger;
   private notificationService: NotificationService;
-  private isRunning: boolean = false;
+  private feeService: FeeService;
+  private lotLedger: LotLedger;
+  private routePolicy: RoutePolicy;
+  private priceTrigger: PriceTrigger;
+  private runningJobs: Set<string> = new Set();
+  private inFlight: Map<string, Promise<void>> = new Map();
+  private sourceQueues: Map<string, Promise<void>> = new Map();
+  // Duration timers of swaps whose outcome isn't known yet (timed out, still in flight)
+  private outcomeTimers: Map<string, (status: 'completed' | 'failed' | 'stuck') => void> = new Map();
 
   constructor() {
     this.walletManager = new WalletManager();
@@ -22,93 +61,384 @@ export class SwapOrchestrator {
     this.priceService = new PriceService();
     this.transactionLogger = new TransactionLogger();
     this.notificationService = new NotificationService();
+    this.feeService = new FeeService(this.priceService);
+    this.lotLedger = new LotLedger();
+    this.routePolicy = new RoutePolicy();
+    this.priceTrigger = new PriceTrigger();
+  }
+
+  // Storage and wallet only: enough for read-only commands (quote, status, export,
+  // report), which must not touch the journal or start tracking swaps
+  async initializeWallet(): Promise<void> {
+    await this.ready();
+    await this.walletManager.initialize();
   }
 
+  // Everything swapping needs, including reconciliation of swaps a previous run left pending
   async initialize(): Promise<void> {
     logger.info('Initializing Swap Orchestrator...');
 
-    await this.walletManager.initialize();
-    const isValid = await this.skipService.validateSwapPair();
+    await this.initializeWallet();
+    await this.transactionLogger.importLegacyHistory();
 
-    if (!isValid) {
-      throw new Error('Invalid swap pair configuration');
+    for (const job of swapJobs) {
+      const isValid = await this.skipService.validateSwapPair(job);
+      if (!isValid) {
+        throw new Error(`Invalid swap pair configuration for job "${job.name}"`);
+      }
     }
 
+    await this.reconcilePendingSwaps();
+
     logger.info('Swap Orchestrator initialized successfully');
   }
 
-  async executeSwap(): Promise<SwapTransaction | null> {
-    if (this.isRunning) {
-      logger.warn('Swap already in progress, skipping...');
-      return null;
+  // Resolves swaps left 'pending' by a crash or restart, using Skip's status API for
+  // the journaled hashes. Anything Skip reports as still in flight becomes 'timed_out'
+  // and is tracked in the background; routes Skip abandoned are marked 'stuck'.
+  // Records already being tracked in the background are left to that tracking.
+  private async reconcilePendingSwaps(sourceChainId?: string): Promise<void> {
+    const pending = (sourceChainId
+      ? this.getPendingFromSource(sourceChainId)
+      : this.transactionLogger.getPendingTransactions()
+    ).filter(tx => !this.inFlight.has(tx.id));
+    if (pending.length === 0) {
+      return;
     }
 
-    this.isRunning = true;
-    const transactionId = uuidv4();
-    const startTime = new Date();
+    logger.warn(`Reconciling ${pending.length} pending swap record(s)${sourceChainId ? ` spending from ${sourceChainId}` : ' from a previous run'}`);
+
+    // Slices first, so TWAP parents aggregate their final state
+    for (const transaction of pending.filter(tx => !tx.twap)) {
+      await this.reconcileTransaction(transaction);
+    }
+
+    for (const parent of pending.filter(tx => tx.twap)) {
+      if (parent.status === 'pending') {
+        const slices = this.transactionLogger.getSlices(parent.id);
+        await this.transactionLogger.savePending({
+          ...parent,
+          error: `TWAP interrupted after ${slices.length}/${parent.twap!.plannedSlices} slices`,
+        });
+      }
+      await this.refreshTwapParent(parent.id);
+    }
+  }
+
+  private async reconcileTransaction(transaction: SwapTransaction): Promise<void> {
+    const hashes = (transaction.chainTransactions || []).filter(tx => tx.txHash);
+    const label = `[${transaction.jobName || 'default'}] Swap ${transaction.id}`;
+
+    if (hashes.length === 0) {
+      // Crashed before anything was broadcast, so no funds left the wallet
+      await this.transactionLogger.logTransaction({
+        ...transaction,
+        status: 'failed',
+        error: 'Interrupted before broadcast',
+        updatedAt: new Date().toISOString(),
+      });
+      logger.info(`${label} had no broadcast transactions, marked failed`);
+      return;
+    }
 
     try {
-      logSwap('Starting swap execution', { id: transactionId });
+      // The status API only knows hashes Skip tracks; a crash right after broadcast left them untracked
+      for (const tx of hashes) {
+        await this.skipService.trackTransaction(tx.chainId, tx.txHash);
+      }
+      const statuses = await Promise.all(
+        hashes.map(tx => this.skipService.getTransactionStatus(tx.chainId, tx.txHash))
+      );
 
-      const balance = await this.walletManager.getKyveBalance();
-      if (!balance || balance.amount === '0') {
-        logger.warn('No KYVE balance available for swap');
-        await this.notificationService.sendNotification(
-          'warning',
-          'No KYVE balance available for swap'
+      let status: SwapTransaction['status'];
+      let error: string | undefined;
+      const failed = statuses.find(result => result.status === 'failed');
+      if (failed) {
+        status = 'failed';
+        error = failed.error || `Skip reported ${failed.state}`;
+      } else if (statuses.every(result => result.status === 'completed')) {
+        status = 'completed';
+      } else if (statuses.some(result => result.status === 'abandoned')) {
+        status = 'stuck';
+        error = `Unresolved after restart (Skip state: ${statuses.map(result => result.state).join(', ')})`;
+      } else {
+        // Still moving: resume tracking in the background instead of giving up on it
+        const resumed: SwapTransaction = {
+          ...transaction,
+          status: 'timed_out',
+          error: 'Still in flight after restart, tracking in background',
+          trackingState: statuses[statuses.length - 1].state,
+        };
+        await this.transactionLogger.savePending(resumed);
+        logger.info(`${label} still in flight, resuming background tracking`);
+        this.trackInFlight(
+          resumed,
+          null,
+          this.skipService.waitForSettlement(hashes, BACKGROUND_TRACKING_MAX_MS)
         );
-        return null;
+        return;
       }
 
-      // Get current KYVE price to convert USD amounts
-      const prices = await this.priceService.getPrices(['kyve', 'usdc']);
-      const kyvePrice = prices.get('kyve')?.price || 0;
+      let reconciled: SwapTransaction = {
+        ...transaction,
+        status,
+        error,
+        trackingState: statuses[statuses.length - 1].state,
+        updatedAt: new Date().toISOString(),
+      };
 
-      if (kyvePrice === 0) {
-        logger.error('Unable to fetch KYVE price, cannot determine swap amounts');
-        return null;
+      if (status === 'completed') {
+        const fees = await this.feeService.getSwapFees(null, reconciled.chainTransactions || []);
+        reconciled = {
+          ...reconciled,
+          chainTransactions: fees.chainTransactions,
+          networkFeesUSD: fees.networkFeesUSD,
+          gasFeesUSD: fees.networkFeesUSD + (reconciled.routeFeesUSD || 0),
+        };
+        reconciled.realized = await this.realizeGains(reconciled, this.getJobForRecord(reconciled));
       }
 
-      // Convert USD amounts to KYVE amounts (in micro units)
-      const minAmountMicro = (swapConfig.minSwapAmountUSD / kyvePrice) * Math.pow(10, 6);
-      const maxAmountMicro = (swapConfig.maxSwapAmountUSD / kyvePrice) * Math.pow(10, 6);
-      const keepReserveMicro = parseFloat(swapConfig.keepReserve) * Math.pow(10, 6);
+      await this.transactionLogger.logTransaction(reconciled);
+      logger.info(`${label} reconciled as ${status}`);
+      await this.notificationService.notify(
+        'swap_reconciled',
+        status === 'completed' ? 'success' : status === 'failed' ? 'error' : 'warning',
+        { label, status, detail: error ? ` (${error})` : '' },
+        reconciled
+      );
+    } catch (error: any) {
+      // Leave it pending: the job stays blocked rather than risking a double swap
+      logger.error(`${label} could not be reconciled, leaving pending: ${error.message || error}`);
+      await this.notificationService.notify('swap_unresolved', 'error', {
+        job: transaction.jobName || 'default',
+        chain: transaction.fromChainId,
+        label,
+        error: error.message || String(error),
+      });
+    }
+  }
 
-      const balanceFloat = parseFloat(balance.amount);
-      let swapAmount = balanceFloat;
+  // Journals swap progress reported by Skip callbacks onto the pending record
+  private journalProgress(transaction: SwapTransaction) {
+    return async (progress: SwapProgress) => {
+      transaction.chainTransactions = progress.chainTransactions;
+      if (progress.chainTransactions.length > 0 && !transaction.txHash) {
+        transaction.txHash = progress.chainTransactions[0].txHash;
+      }
+      if (progress.trackingState) {
+        transaction.trackingState = progress.trackingState;
+      }
+      await this.transactionLogger.savePending(transaction);
+    };
+  }
+
+  // `amount`, in whole source units, replaces the job's balance-based sizing for a
+  // manual swap; the job's USD limits and all other checks still apply
+  async executeSwap(job: SwapConfig = swapConfig, amount?: number): Promise<SwapTransaction | null> {
+    const finish = metrics.swapStarted(job.name);
+    const result = await this.runSwap(job, amount);
+
+    if (result) {
+      this.outcomeTimers.set(result.id, finish);
+      this.recordOutcome(result);
+    }
+    return result;
+  }
+
+  // Records a finished swap in metrics. Timed-out swaps are recorded once they settle.
+  private recordOutcome(transaction: SwapTransaction): void {
+    const finish = this.outcomeTimers.get(transaction.id);
+    if (transaction.status === 'pending' || transaction.status === 'timed_out') {
+      return;
+    }
 
-      if (swapConfig.swapPercentage < 100) {
-        swapAmount = Math.floor(balanceFloat * (swapConfig.swapPercentage / 100));
-        logger.info(`Using ${swapConfig.swapPercentage}% of balance: ${swapAmount}`);
+    const jobName = transaction.jobName || 'default';
+    if (transaction.status === 'completed') {
+      metrics.swapCompleted(jobName, transaction.effectiveRate);
+    } else {
+      metrics.swapFailed(jobName);
+    }
+
+    finish?.(transaction.status);
+    this.outcomeTimers.delete(transaction.id);
+  }
+
+  // Polled for price-triggered jobs: checks the oracle price and swaps when the job's trigger fires
+  async checkPriceTrigger(job: SwapConfig): Promise<SwapTransaction | null> {
+    if (this.runningJobs.has(job.name)) {
+      return null;
+    }
+
+    const price = await this.priceService.getPrice(job.sourceSymbol.toLowerCase());
+    if (!price?.price) {
+      logger.warn(`[${job.name}] No ${job.sourceSymbol} price available, price trigger not checked`);
+      return null;
+    }
+
+    const decision = await this.priceTrigger.evaluate(job, price.price);
+    if (!decision.fire) {
+      logger.debug(`[${job.name}] Price trigger idle at $${price.price.toFixed(4)}`);
+      return null;
+    }
+
+    logger.info(`[${job.name}] Price trigger fired: ${decision.reason}`);
+    console.log(`🎯 Price trigger fired for ${job.name}: ${decision.reason}`);
+    const result = await this.executeSwap(job);
+    await this.priceTrigger.recordFiring(job, result);
+    return result;
+  }
+
+  private async skip(job: SwapConfig, reason: SwapSkipReason): Promise<null> {
+    metrics.swapSkipped(job.name, reason);
+    await this.transactionLogger.logSkippedSwap({
+      id: uuidv4(),
+      jobName: job.name,
+      timestamp: new Date().toISOString(),
+      reason,
+    });
+    return null;
+  }
+
+  private async runSwap(job: SwapConfig, amount?: number): Promise<SwapTransaction | null> {
+    if (this.runningJobs.has(job.name)) {
+      logger.warn(`Swap for job "${job.name}" already in progress, skipping...`);
+      return this.skip(job, 'already_running');
+    }
+
+    this.runningJobs.add(job.name);
+    try {
+      return await this.withSourceQueue(job.sourceChainId, () => this.swapFromSource(job, amount));
+    } finally {
+      this.runningJobs.delete(job.name);
+    }
+  }
+
+  // Jobs on the same source chain spend from the same wallet account, so their swaps run
+  // one after another: each sizes from the balance the previous one left behind, and
+  // their transactions never compete for the account sequence.
+  private withSourceQueue<T>(sourceChainId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.sourceQueues.get(sourceChainId) || Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.then(() => undefined, () => undefined);
+    this.sourceQueues.set(sourceChainId, tail);
+    tail.then(() => {
+      if (this.sourceQueues.get(sourceChainId) === tail) {
+        this.sourceQueues.delete(sourceChainId);
+      }
+    });
+    return run;
+  }
+
+  // Unsettled records spending from a source chain, whichever job created them
+  private getPendingFromSource(sourceChainId: string): SwapTransaction[] {
+    return this.transactionLogger.getPendingTransactions().filter(tx => tx.fromChainId === sourceChainId);
+  }
+
+  private async swapFromSource(job: SwapConfig, amount?: number): Promise<SwapTransaction | null> {
+    // Startup reconciliation can fail (e.g. Skip unreachable), so retry it on every run
+    await this.reconcilePendingSwaps(job.sourceChainId);
+
+    const inFlight = this.getPendingFromSource(job.sourceChainId).filter(tx => this.inFlight.has(tx.id));
+    if (inFlight.length > 0) {
+      logger.warn(`[${job.name}] ${inFlight.length} timed-out swap(s) from ${job.sourceChainId} still in flight, skipping until they settle`);
+      return this.skip(job, 'in_flight');
+    }
+
+    const unresolved = this.getPendingFromSource(job.sourceChainId);
+    if (unresolved.length > 0) {
+      logger.warn(`[${job.name}] ${unresolved.length} unresolved pending swap(s) from ${job.sourceChainId} in the journal, skipping to avoid a double swap`);
+      return this.skip(job, 'unresolved_pending');
+    }
+
+    const transactionId = uuidv4();
+    const startTime = new Date();
+    const sourceSymbol = job.sourceSymbol;
+    const destSymbol = job.destSymbol;
+    const sourceUnit = Math.pow(10, job.sourceDecimals);
+
+    try {
+      logSwap('Starting swap execution', { id: transactionId, job: job.name });
+
+      if (config.rewards.autoClaim) {
+        await this.claimRewards(job);
+      }
+
+      const balance = await this.walletManager.getSourceBalance(job);
+      if (!balance || balance.amount === '0') {
+        logger.warn(`[${job.name}] No ${sourceSymbol} balance available for swap`);
+        await this.notificationService.notify('no_balance', 'warning', { job: job.name, sourceSymbol });
+        return this.skip(job, 'no_balance');
       }
 
-      if (keepReserveMicro > 0) {
-        swapAmount = Math.max(0, balanceFloat - keepReserveMicro);
-        logger.info(`Keeping reserve of ${swapConfig.keepReserve} KYVE, swapping ${swapAmount}`);
+      // Get current source asset price to convert USD amounts
+      const sourcePriceKey = sourceSymbol.toLowerCase();
+      const destPriceKey = destSymbol.toLowerCase();
+      const prices = await this.priceService.getPrices([sourcePriceKey, destPriceKey]);
+      const kyvePrice = prices.get(sourcePriceKey)?.price || 0;
+
+      if (kyvePrice === 0) {
+        logger.error(`[${job.name}] Unable to fetch ${sourceSymbol} price, cannot determine swap amounts`);
+        return this.skip(job, 'no_price');
       }
 
-      swapAmount = Math.min(swapAmount, maxAmountMicro);
+      // Convert USD amounts to source asset amounts (in base units)
+      const minAmountMicro = (job.minSwapAmountUSD / kyvePrice) * sourceUnit;
+      let swapAmount: number;
+
+      if (amount !== undefined) {
+        swapAmount = Math.floor(amount * sourceUnit);
+        const swapAmountUSD = amount * kyvePrice;
+        // KEEP_RESERVE_KYVE stays in the wallet for fees, as it does for scheduled swaps
+        const available = parseFloat(balance.amount) - parseFloat(job.keepReserve) * sourceUnit;
+        if (swapAmount > available) {
+          const reserve = parseFloat(job.keepReserve) > 0 ? ` minus the ${job.keepReserve} ${sourceSymbol} reserve` : '';
+          logger.warn(`[${job.name}] Requested ${amount} ${sourceSymbol} exceeds the balance of ${this.formatSource(balance.amount, job)} ${sourceSymbol}${reserve}`);
+          return this.skip(job, 'insufficient_balance');
+        }
+        if (swapAmountUSD > job.maxSwapAmountUSD) {
+          logger.warn(`[${job.name}] Requested amount $${swapAmountUSD.toFixed(2)} above maximum $${job.maxSwapAmountUSD}, skipping swap`);
+          return this.skip(job, 'above_maximum');
+        }
+      } else {
+        swapAmount = this.sizeSwap(job, parseFloat(balance.amount), kyvePrice);
+      }
 
       if (swapAmount < minAmountMicro) {
-        const swapAmountUSD = (swapAmount / Math.pow(10, 6)) * kyvePrice;
-        logger.info(`Swap amount $${swapAmountUSD.toFixed(2)} below minimum $${swapConfig.minSwapAmountUSD}, skipping swap`);
-        return null;
+        const swapAmountUSD = (swapAmount / sourceUnit) * kyvePrice;
+        logger.info(`[${job.name}] Swap amount $${swapAmountUSD.toFixed(2)} below minimum $${job.minSwapAmountUSD}, skipping swap`);
+        return this.skip(job, 'below_minimum');
       }
 
-      const usdcPrice = prices.get('usdc')?.price || 1;
+      const usdcPrice = prices.get(destPriceKey)?.price || 1;
 
       const costBasisUSD = await this.priceService.calculateCostBasis(
         swapAmount.toString(),
-        'kyve'
+        sourcePriceKey,
+        job.sourceDecimals
       );
 
+      let destinationChoice: DestinationChoice | undefined;
+      let chosenRoute: any;
+      if (job.autoDestinations) {
+        const chosen = await this.chooseDestination(job, Math.floor(swapAmount).toString(), usdcPrice, costBasisUSD);
+        job = chosen.job;
+        chosenRoute = chosen.route;
+        destinationChoice = chosen.choice;
+        this.printDestinationChoice(destinationChoice);
+      }
+
       console.log('\n🔄 SWAP STARTED');
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log(`📊 Swapping: ${this.walletManager.formatAmount(swapAmount.toString())} KYVE`);
+      console.log(`🏷️  Job: ${job.name}`);
+      console.log(`📊 Swapping: ${this.formatSource(swapAmount.toString(), job)} ${sourceSymbol}`);
       console.log(`💰 Cost Basis: $${costBasisUSD.toFixed(2)}`);
-      console.log(`🎯 Destination: ${swapConfig.destAddress}`);
+      console.log(`🎯 Destination: ${job.destAddress || getChainDisplayName(job.destChainId)}`);
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
 
+      if (job.executionMode === 'twap' && job.twapSlices > 1) {
+        return await this.executeTwapSwap(job, transactionId, startTime, Math.floor(swapAmount), destinationChoice);
+      }
+
       logSwap('Getting swap route', {
         amount: swapAmount.toString(),
         costBasis: costBasisUSD,
@@ -117,96 +447,529 @@ export class SwapOrchestrator {
       console.log('🔍 Finding optimal route...');
       // Round to integer to avoid precision issues
       const roundedAmount = Math.floor(swapAmount).toString();
-      const route = await this.skipService.getRoute(roundedAmount);
+      const route = chosenRoute || await this.skipService.getRoute(roundedAmount, job);
       console.log('✅ Route found!\n');
 
       const estimatedOut = parseFloat(route.amountOut);
-      const effectiveRate = estimatedOut / swapAmount;
+      const effectiveRate = this.calculateRate(estimatedOut, swapAmount, job);
+      const priceCheck = this.priceService.checkRouteDeviation(
+        effectiveRate,
+        prices.get(sourcePriceKey)!,
+        prices.get(destPriceKey),
+        job.maxPriceDeviationPercent
+      );
 
       console.log('📈 Swap Details:');
-      console.log(`   From: ${this.walletManager.formatAmount(swapAmount.toString())} KYVE`);
-      console.log(`   To: ~${this.walletManager.formatAmount(estimatedOut.toString())} USDC`);
-      console.log(`   Rate: ${effectiveRate.toFixed(6)} USDC per KYVE`);
-      console.log(`   Slippage Tolerance: ${swapConfig.maxSlippage * 100}%\n`);
+      console.log(`   From: ${this.formatSource(swapAmount.toString(), job)} ${sourceSymbol}`);
+      console.log(`   To: ~${this.formatDest(estimatedOut.toString(), job)} ${destSymbol}`);
+      console.log(`   Rate: ${effectiveRate.toFixed(6)} ${destSymbol} per ${sourceSymbol}`);
+      console.log(`   Oracle Rate: ${priceCheck.oracleRate.toFixed(6)} (${this.formatDeviation(priceCheck.deviationPercent)})`);
+      console.log(`   Slippage Tolerance: ${job.maxSlippage * 100}%\n`);
 
       logger.info('Swap analysis:', {
-        swapAmount: this.walletManager.formatAmount(swapAmount.toString()),
-        estimatedOut: this.walletManager.formatAmount(estimatedOut.toString()),
+        job: job.name,
+        swapAmount: this.formatSource(swapAmount.toString(), job),
+        estimatedOut: this.formatDest(estimatedOut.toString(), job),
         effectiveRate: effectiveRate.toFixed(6),
-        slippageTolerance: `${swapConfig.maxSlippage * 100}%`
+        oracleRate: priceCheck.oracleRate.toFixed(6),
+        deviation: this.formatDeviation(priceCheck.deviationPercent),
+        slippageTolerance: `${job.maxSlippage * 100}%`
       });
 
-      if (effectiveRate < swapConfig.minEffectiveRate) {
-        logger.warn(`Effective rate ${effectiveRate} below minimum ${swapConfig.minEffectiveRate}, cancelling swap`);
-        await this.notificationService.sendNotification(
-          'warning',
-          `Swap cancelled: Rate too low (${effectiveRate.toFixed(6)} < ${swapConfig.minEffectiveRate})`
-        );
-        return null;
+      if (effectiveRate < job.minEffectiveRate) {
+        logger.warn(`Effective rate ${effectiveRate} below minimum ${job.minEffectiveRate}, cancelling swap`);
+        await this.notificationService.notify('rate_too_low', 'warning', {
+          job: job.name,
+          rate: effectiveRate.toFixed(6),
+          minRate: job.minEffectiveRate,
+        });
+        return this.skip(job, 'rate_below_minimum');
+      }
+
+      if (!priceCheck.passed) {
+        const reason = this.describeDeviation(priceCheck, job);
+        logger.warn(`[${job.name}] ${reason}, cancelling swap`, priceCheck);
+        await this.notificationService.notify('price_deviation', 'warning', { job: job.name, reason });
+        return this.skip(job, 'price_deviation');
+      }
+
+      const violations = await this.checkRoutePolicy(route, (swapAmount / sourceUnit) * kyvePrice);
+      if (violations.length > 0) {
+        const reason = `Route breaks the route policy: ${violations.join('; ')}`;
+        logger.warn(`[${job.name}] ${reason}, cancelling swap`);
+        await this.notificationService.notify('route_policy', 'warning', { job: job.name, reason });
+        return this.skip(job, 'route_policy');
       }
 
       logSwap('Executing swap', {
+        job: job.name,
         estimatedOut: route.amountOut,
-        dryRun: swapConfig.dryRun,
+        dryRun: job.dryRun,
       });
 
-      console.log('🚀 Executing cross-chain swap...\n');
-      const result = await this.skipService.executeSwap(route, swapConfig.dryRun);
-      console.log('\n✨ Swap execution completed!\n');
-
-      // Extract primary tx hash from chainTransactions or result
-      const primaryTxHash = result.chainTransactions && result.chainTransactions.length > 0
-        ? result.chainTransactions[0].txHash
-        : (result.txHash || 'PENDING');
-
       const transaction: SwapTransaction = {
         id: transactionId,
+        jobName: job.name,
         timestamp: startTime.toISOString(),
-        fromToken: 'KYVE',
-        toToken: 'USDC',
+        fromToken: sourceSymbol,
+        toToken: destSymbol,
         fromAmount: swapAmount.toString(),
-        toAmount: result.amountOut || route.amountOut,
-        fromChainId: swapConfig.sourceChainId,
-        toChainId: swapConfig.destChainId,
+        toAmount: route.amountOut, // Estimate until execution reports the actual amount
+        fromChainId: job.sourceChainId,
+        toChainId: job.destChainId,
         kyvePrice,
         usdcPrice,
         costBasisUSD,
         gasFeesUSD: 0,
-        effectiveRate: parseFloat(result.amountOut || route.amountOut) / swapAmount,
-        txHash: primaryTxHash,
-        status: result.success ? 'completed' : 'failed',
-        chainTransactions: result.chainTransactions || [],
+        effectiveRate,
+        priceCheck,
+        destinationChoice,
+        txHash: '',
+        status: 'pending',
+        chainTransactions: [],
         // Don't store route - it contains circular HTTP objects
       };
 
+      if (!job.dryRun) {
+        await this.transactionLogger.savePending(transaction);
+      }
+
+      console.log('🚀 Executing cross-chain swap...\n');
+      const result = await this.skipService.executeSwap(route, job.dryRun, job, this.journalProgress(transaction));
+
+      if (result.timedOut) {
+        transaction.status = 'timed_out';
+        transaction.error = `Timed out after ${job.timeoutMinutes} minutes, still tracking in background`;
+        transaction.chainTransactions = result.chainTransactions;
+        transaction.txHash = this.getPrimaryTxHash(result);
+        await this.transactionLogger.savePending(transaction);
+        this.trackInFlight(transaction, route, result.completion!);
+
+        const timeoutMessage = `[${job.name}] Swap timed out after ${job.timeoutMinutes} minutes; funds may still arrive, tracking in background`;
+        console.log(`\n⏰ ${timeoutMessage}\n`);
+        logger.warn(timeoutMessage);
+        await this.notificationService.notify(
+          'swap_timed_out',
+          'warning',
+          { job: job.name, timeoutMinutes: job.timeoutMinutes },
+          transaction
+        );
+        return transaction;
+      }
+
+      console.log('\n✨ Swap execution completed!\n');
+
+      const fees = await this.getFees(route, result, job);
+      const executedRate = this.calculateRate(parseFloat(result.amountOut || route.amountOut), swapAmount, job);
+
+      Object.assign(transaction, {
+        toAmount: result.amountOut || route.amountOut,
+        gasFeesUSD: fees.totalUSD,
+        networkFeesUSD: fees.networkFeesUSD,
+        routeFeesUSD: fees.routeFeesUSD,
+        routeFees: fees.routeFees,
+        effectiveRate: executedRate,
+        priceCheck: this.withExecutedRate(priceCheck, executedRate),
+        txHash: this.getPrimaryTxHash(result),
+        status: result.success ? 'completed' : 'failed',
+        chainTransactions: fees.chainTransactions,
+      });
+      transaction.realized = await this.realizeGains(transaction, job);
+
       await this.transactionLogger.logTransaction(transaction);
 
-      const message = `Swap completed: ${this.walletManager.formatAmount(swapAmount.toString())} KYVE → ${this.walletManager.formatAmount(transaction.toAmount)} USDC (Cost basis: $${costBasisUSD.toFixed(2)})`;
+      const message = `[${job.name}] Swap completed: ${this.formatSource(swapAmount.toString(), job)} ${sourceSymbol} → ${this.formatDest(transaction.toAmount, job)} ${destSymbol} (Cost basis: $${costBasisUSD.toFixed(2)})`;
 
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
       console.log('🎉 SWAP SUCCESSFUL!');
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-      console.log(`✅ Sent: ${this.walletManager.formatAmount(swapAmount.toString())} KYVE`);
-      console.log(`✅ Received: ${this.walletManager.formatAmount(transaction.toAmount)} USDC`);
+      console.log(`✅ Sent: ${this.formatSource(swapAmount.toString(), job)} ${sourceSymbol}`);
+      console.log(`✅ Received: ${this.formatDest(transaction.toAmount, job)} ${destSymbol}`);
       console.log(`💰 Cost Basis: $${costBasisUSD.toFixed(2)}`);
+      console.log(`⛽ Fees: $${transaction.gasFeesUSD.toFixed(4)}`);
       console.log(`🔗 TX Hash: ${transaction.txHash}`);
-      console.log(`📍 Destination: ${swapConfig.destAddress}`);
+      console.log(`📍 Destination: ${job.destAddress || getChainDisplayName(job.destChainId)}`);
       console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
 
       logSwap(message, { transaction });
-      await this.notificationService.sendNotification('success', message, transaction);
+      await this.notificationService.notify('swap_completed', 'success', {
+        job: job.name,
+        amountIn: this.formatSource(swapAmount.toString(), job),
+        amountOut: this.formatDest(transaction.toAmount, job),
+        sourceSymbol,
+        destSymbol,
+        costBasis: costBasisUSD.toFixed(2),
+      }, transaction);
 
       return transaction;
     } catch (error: any) {
-      const transaction: SwapTransaction = {
-        id: transactionId,
-        timestamp: startTime.toISOString(),
-        fromToken: 'KYVE',
-        toToken: 'USDC',
-        fromAmount: '0',
+      // Keep what the journal already knows (amounts, broadcast hashes) if we got that far
+      const journaled = this.transactionLogger.getTransaction(transactionId);
+      const transaction: SwapTransaction = journaled
+        ? { ...journaled, status: 'failed', error: error.message, updatedAt: new Date().toISOString() }
+        : {
+          id: transactionId,
+          jobName: job.name,
+          timestamp: startTime.toISOString(),
+          fromToken: sourceSymbol,
+          toToken: destSymbol,
+          fromAmount: '0',
+          toAmount: '0',
+          fromChainId: job.sourceChainId,
+          toChainId: job.destChainId,
+          kyvePrice: 0,
+          usdcPrice: 0,
+          costBasisUSD: 0,
+          gasFeesUSD: 0,
+          effectiveRate: 0,
+          txHash: '',
+          status: 'failed',
+          error: error.message,
+        };
+
+      await this.transactionLogger.logTransaction(transaction);
+
+      // Log error to console to avoid circular JSON issues
+      console.error('Swap failed - actual error:', error);
+      logger.error(`Swap failed: ${String(error.message || error)}`);
+      await this.notificationService.notify('swap_failed', 'error', { job: job.name, error: error.message }, transaction);
+
+      return transaction;
+    }
+  }
+
+  // Quotes every candidate destination of an auto-destination job. Returns the job pointed at
+  // the destination with the highest net proceeds (routes within the route policy first), its
+  // route, and all candidates for the record. Throws if no destination could be quoted.
+  private async chooseDestination(
+    job: SwapConfig,
+    amountIn: string,
+    destPrice: number,
+    amountInUSD: number
+  ): Promise<{ job: SwapConfig; route: any; choice: DestinationChoice }> {
+    const quoted: Array<{ candidate: DestinationCandidate; job: SwapConfig; route?: any }> = [];
+
+    for (const destination of job.autoDestinations!) {
+      const candidateJob = overrideSwapJob(job, { destination });
+      const candidate: DestinationCandidate = { destination, chainId: candidateJob.destChainId };
+
+      try {
+        const route = await this.skipService.getRoute(amountIn, candidateJob);
+        const fees = await this.feeService.getRouteFees(route);
+        candidate.amountOut = route.amountOut;
+        candidate.amountOutUSD = (parseFloat(route.amountOut) / Math.pow(10, candidateJob.destDecimals)) * destPrice;
+        candidate.feesUSD = fees.reduce((sum, fee) => sum + fee.usd, 0);
+        candidate.netUSD = candidate.amountOutUSD - feesOnTopOfAmountOut(fees).reduce((sum, fee) => sum + fee.usd, 0);
+        candidate.violations = this.routePolicy.evaluate(this.skipService.describeRoute(route, fees), amountInUSD);
+        quoted.push({ candidate, job: candidateJob, route });
+      } catch (error: any) {
+        candidate.error = error.message || String(error);
+        quoted.push({ candidate, job: candidateJob });
+      }
+    }
+
+    const rank = (entry: typeof quoted[number]) =>
+      entry.candidate.netUSD === undefined ? 2 : entry.candidate.violations!.length > 0 ? 1 : 0;
+    quoted.sort((a, b) => rank(a) - rank(b) || (b.candidate.netUSD || 0) - (a.candidate.netUSD || 0));
+
+    const best = quoted[0];
+    if (!best.route) {
+      throw new Error(`No route to any destination: ${quoted.map(entry => `${entry.candidate.destination}: ${entry.candidate.error}`).join('; ')}`);
+    }
+
+    logger.info(`[${job.name}] Auto destination chose ${best.candidate.destination}`, {
+      candidates: quoted.map(({ candidate }) => ({
+        destination: candidate.destination,
+        netUSD: candidate.netUSD?.toFixed(2),
+        error: candidate.error,
+      })),
+    });
+
+    return {
+      job: best.job,
+      route: best.route,
+      choice: { chosen: best.candidate.destination, candidates: quoted.map(entry => entry.candidate) },
+    };
+  }
+
+  private printDestinationChoice(choice: DestinationChoice): void {
+    console.log('🧭 Destinations compared:');
+    for (const candidate of choice.candidates) {
+      const marker = candidate.destination === choice.chosen ? '  ← chosen' : '';
+      if (candidate.netUSD === undefined) {
+        console.log(`   ${candidate.destination}: no route (${candidate.error})`);
+      } else {
+        const policy = candidate.violations!.length > 0 ? `, breaks route policy: ${candidate.violations!.join('; ')}` : '';
+        console.log(`   ${candidate.destination}: ~$${candidate.netUSD.toFixed(2)} net (fees $${candidate.feesUSD!.toFixed(2)}${policy})${marker}`);
+      }
+    }
+    console.log('');
+  }
+
+  // Swap amount in source base units: the share of the balance the job may use,
+  // minus its reserve, capped at the job's USD maximum
+  private sizeSwap(job: SwapConfig, balanceAmount: number, sourcePrice: number): number {
+    const sourceUnit = Math.pow(10, job.sourceDecimals);
+    const maxAmountMicro = (job.maxSwapAmountUSD / sourcePrice) * sourceUnit;
+    const keepReserveMicro = parseFloat(job.keepReserve) * sourceUnit;
+
+    let swapAmount = balanceAmount;
+
+    if (job.swapPercentage < 100) {
+      swapAmount = Math.floor(balanceAmount * (job.swapPercentage / 100));
+      logger.info(`Using ${job.swapPercentage}% of balance: ${swapAmount}`);
+    }
+
+    if (keepReserveMicro > 0) {
+      swapAmount = Math.max(0, balanceAmount - keepReserveMicro);
+      logger.info(`Keeping reserve of ${job.keepReserve} ${job.sourceSymbol}, swapping ${swapAmount}`);
+    }
+
+    return Math.min(swapAmount, maxAmountMicro);
+  }
+
+  // Rules of the route policy this route breaks; empty when it may be executed
+  private async checkRoutePolicy(route: any, amountInUSD: number): Promise<string[]> {
+    const fees = await this.feeService.getRouteFees(route);
+    return this.routePolicy.evaluate(this.skipService.describeRoute(route, fees), amountInUSD);
+  }
+
+  // Prices a swap without executing it. `amount` is in whole source units; without it
+  // the job's sizing rules decide the amount, as they would for a scheduled swap.
+  async getQuote(job: SwapConfig = swapConfig, amount?: number): Promise<SwapQuote> {
+    const sourcePriceKey = job.sourceSymbol.toLowerCase();
+    const destPriceKey = job.destSymbol.toLowerCase();
+    const prices = await this.priceService.getPrices([sourcePriceKey, destPriceKey]);
+    const sourcePrice = prices.get(sourcePriceKey);
+    if (!sourcePrice?.price) {
+      throw new Error(`Unable to fetch ${job.sourceSymbol} price`);
+    }
+
+    const sourceUnit = Math.pow(10, job.sourceDecimals);
+    let amountIn: number;
+    if (amount !== undefined) {
+      amountIn = Math.floor(amount * sourceUnit);
+    } else {
+      const balance = await this.walletManager.getSourceBalance(job);
+      amountIn = Math.floor(this.sizeSwap(job, parseFloat(balance?.amount || '0'), sourcePrice.price));
+    }
+
+    if (!(amountIn > 0)) {
+      throw new Error(`No ${job.sourceSymbol} available to quote for job "${job.name}"`);
+    }
+
+    let route: any;
+    let destinationChoice: DestinationChoice | undefined;
+    if (job.autoDestinations) {
+      const chosen = await this.chooseDestination(
+        job,
+        amountIn.toString(),
+        prices.get(destPriceKey)?.price || 1,
+        (amountIn / sourceUnit) * sourcePrice.price
+      );
+      job = chosen.job;
+      route = chosen.route;
+      destinationChoice = chosen.choice;
+    } else {
+      route = await this.skipService.getRoute(amountIn.toString(), job);
+    }
+    const effectiveRate = this.calculateRate(parseFloat(route.amountOut), amountIn, job);
+    const priceCheck = this.priceService.checkRouteDeviation(
+      effectiveRate,
+      sourcePrice,
+      prices.get(destPriceKey),
+      job.maxPriceDeviationPercent
+    );
+    const routeFees = await this.feeService.getRouteFees(route);
+    const amountInUSD = (amountIn / sourceUnit) * sourcePrice.price;
+
+    const blockers: string[] = [];
+    if (amountInUSD < job.minSwapAmountUSD) {
+      blockers.push(`Amount $${amountInUSD.toFixed(2)} below minimum $${job.minSwapAmountUSD}`);
+    }
+    if (effectiveRate < job.minEffectiveRate) {
+      blockers.push(`Rate ${effectiveRate.toFixed(6)} below minimum ${job.minEffectiveRate}`);
+    }
+    if (!priceCheck.passed) {
+      blockers.push(this.describeDeviation(priceCheck, job));
+    }
+    const preview = await this.skipService.previewRoute(route, job, routeFees);
+    const violations = this.routePolicy.evaluate(preview, amountInUSD);
+    if (violations.length > 0) {
+      blockers.push(`Route breaks the route policy: ${violations.join('; ')}`);
+    }
+
+    return {
+      jobName: job.name,
+      fromToken: job.sourceSymbol,
+      toToken: job.destSymbol,
+      fromChainId: job.sourceChainId,
+      toChainId: job.destChainId,
+      amountIn: amountIn.toString(),
+      amountOut: route.amountOut,
+      amountInFormatted: this.formatSource(amountIn.toString(), job),
+      amountOutFormatted: this.formatDest(route.amountOut, job),
+      amountInUSD,
+      effectiveRate,
+      priceCheck,
+      routeFeesUSD: routeFees.reduce((sum, fee) => sum + fee.usd, 0),
+      blockers,
+      route: preview,
+      destinationChoice,
+      quotedAt: new Date().toISOString(),
+    };
+  }
+
+  // Withdraws pending staking rewards (and commission, if enabled) so they count toward
+  // the balance this swap is sized from. A failed claim is recorded but doesn't stop the swap.
+  private async claimRewards(job: SwapConfig): Promise<void> {
+    if (job.sourceChainId !== config.kyve.chainId || job.sourceAsset !== 'ukyve') {
+      return;
+    }
+
+    const sourceUnit = Math.pow(10, job.sourceDecimals);
+    const claim: RewardClaim = {
+      id: uuidv4(),
+      jobName: job.name,
+      timestamp: new Date().toISOString(),
+      chainId: job.sourceChainId,
+      address: this.walletManager.getKyveAddress(),
+      denom: job.sourceAsset,
+      rewardsAmount: '0',
+      commissionAmount: '0',
+      validators: [],
+      price: 0,
+      valueUSD: 0,
+      txHash: '',
+      status: 'failed',
+    };
+    let broadcasting = false;
+
+    try {
+      const claimable = await this.walletManager.getClaimableRewards(config.rewards.claimCommission);
+      const pendingKyve = (parseFloat(claimable.rewards) + parseFloat(claimable.commission)) / sourceUnit;
+
+      if (pendingKyve === 0 || pendingKyve < config.rewards.minClaimAmount) {
+        logger.info(`[${job.name}] Pending rewards ${pendingKyve.toFixed(6)} ${job.sourceSymbol} below claim minimum ${config.rewards.minClaimAmount}, not claiming`);
+        return;
+      }
+
+      if (job.dryRun) {
+        logger.info(`[${job.name}] DRY RUN: would claim ${pendingKyve.toFixed(6)} ${job.sourceSymbol} from ${claimable.validators.length} validator(s)`);
+        return;
+      }
+
+      console.log(`🎁 Claiming ${pendingKyve.toFixed(6)} ${job.sourceSymbol} in staking rewards...`);
+      claim.validators = claimable.validators;
+      broadcasting = true;
+      const withdrawal = await this.walletManager.withdrawRewards(claimable);
+      const price = await this.priceService.getPrice(job.sourceSymbol.toLowerCase());
+      const claimedKyve = (parseFloat(withdrawal.rewards) + parseFloat(withdrawal.commission)) / sourceUnit;
+
+      Object.assign(claim, {
+        rewardsAmount: withdrawal.rewards,
+        commissionAmount: withdrawal.commission,
+        price: price?.price || 0,
+        valueUSD: claimedKyve * (price?.price || 0),
+        txHash: withdrawal.txHash,
+        feeAmount: withdrawal.fee?.amount,
+        feeUSD: withdrawal.fee ? await this.priceService.getGasPriceInUSD(withdrawal.fee.amount, job.sourceChainId) : undefined,
+        status: 'completed',
+      });
+      await this.transactionLogger.logRewardClaim(claim);
+
+      // Rewards are acquired at their market value on receipt, which becomes their cost basis
+      await this.lotLedger.addLot({
+        asset: job.sourceSymbol,
+        source: 'staking_reward',
+        acquiredAt: claim.timestamp,
+        quantity: claimedKyve,
+        costBasisUSD: claim.valueUSD,
+        reference: withdrawal.txHash,
+      });
+
+      console.log(`✅ Claimed ${claimedKyve.toFixed(6)} ${job.sourceSymbol} ($${claim.valueUSD.toFixed(2)}), TX: ${withdrawal.txHash}\n`);
+    } catch (error: any) {
+      claim.error = error.message || String(error);
+      if (broadcasting) {
+        await this.transactionLogger.logRewardClaim(claim);
+      }
+      logger.error(`[${job.name}] Failed to claim staking rewards: ${claim.error}`);
+      await this.notificationService.notify('claim_failed', 'warning', { job: job.name, error: claim.error });
+    }
+  }
+
+  // Splits totalAmount into job.twapSlices slices spread evenly over job.twapWindowMinutes.
+  // Each slice is re-quoted and rate-checked on its own; the parent record aggregates them.
+  private async executeTwapSwap(
+    job: SwapConfig,
+    parentId: string,
+    startTime: Date,
+    totalAmount: number,
+    destinationChoice?: DestinationChoice
+  ): Promise<SwapTransaction> {
+    const sliceCount = job.twapSlices;
+    const intervalMs = (job.twapWindowMinutes * 60 * 1000) / (sliceCount - 1);
+    const baseSliceAmount = Math.floor(totalAmount / sliceCount);
+    const sourcePriceKey = job.sourceSymbol.toLowerCase();
+    const destPriceKey = job.destSymbol.toLowerCase();
+    const slices: SwapTransaction[] = [];
+
+    logSwap('Starting TWAP execution', {
+      id: parentId,
+      job: job.name,
+      totalAmount,
+      slices: sliceCount,
+      windowMinutes: job.twapWindowMinutes,
+    });
+
+    // Journal the parent up front so a crash mid-window can be reconciled from its slices
+    let parent: SwapTransaction = this.aggregateTwap({
+      id: parentId,
+      jobName: job.name,
+      timestamp: startTime.toISOString(),
+      fromToken: job.sourceSymbol,
+      toToken: job.destSymbol,
+      fromAmount: '0',
+      toAmount: '0',
+      fromChainId: job.sourceChainId,
+      toChainId: job.destChainId,
+      kyvePrice: 0,
+      usdcPrice: 0,
+      costBasisUSD: 0,
+      gasFeesUSD: 0,
+      effectiveRate: 0,
+      txHash: '',
+      status: 'pending',
+      destinationChoice,
+    }, [], job, sliceCount);
+    parent.status = 'pending';
+    parent.error = undefined;
+    if (!job.dryRun) {
+      await this.transactionLogger.savePending(parent);
+    }
+
+    for (let i = 0; i < sliceCount; i++) {
+      if (i > 0) {
+        logger.info(`[${job.name}] Waiting ${(intervalMs / 60000).toFixed(1)} minutes before TWAP slice ${i + 1}/${sliceCount}`);
+        await sleep(intervalMs);
+      }
+
+      // Last slice picks up the rounding remainder
+      const sliceAmount = i === sliceCount - 1
+        ? totalAmount - baseSliceAmount * (sliceCount - 1)
+        : baseSliceAmount;
+      const slice: SwapTransaction = {
+        id: uuidv4(),
+        jobName: job.name,
+        parentId,
+        timestamp: new Date().toISOString(),
+        fromToken: job.sourceSymbol,
+        toToken: job.destSymbol,
+        fromAmount: sliceAmount.toString(),
         toAmount: '0',
-        fromChainId: swapConfig.sourceChainId,
-        toChainId: swapConfig.destChainId,
+        fromChainId: job.sourceChainId,
+        toChainId: job.destChainId,
         kyvePrice: 0,
         usdcPrice: 0,
         costBasisUSD: 0,
@@ -214,28 +977,396 @@ export class SwapOrchestrator {
         effectiveRate: 0,
         txHash: '',
         status: 'failed',
-        error: error.message,
       };
 
-      await this.transactionLogger.logTransaction(transaction);
+      try {
+        console.log(`🔪 TWAP slice ${i + 1}/${sliceCount}: ${this.formatSource(sliceAmount.toString(), job)} ${job.sourceSymbol}`);
 
-      // Log error to console to avoid circular JSON issues
-      console.error('Swap failed - actual error:', error);
-      logger.error(`Swap failed: ${String(error.message || error)}`);
-      await this.notificationService.sendNotification(
-        'error',
-        `Swap failed: ${error.message}`,
-        transaction
+        const prices = await this.priceService.getPrices([sourcePriceKey, destPriceKey]);
+        const sourcePrice = prices.get(sourcePriceKey);
+        if (!sourcePrice) {
+          throw new Error(`Unable to fetch ${job.sourceSymbol} price`);
+        }
+        slice.kyvePrice = sourcePrice.price;
+        slice.usdcPrice = prices.get(destPriceKey)?.price || 1;
+        slice.costBasisUSD = (sliceAmount / Math.pow(10, job.sourceDecimals)) * slice.kyvePrice;
+
+        const route = await this.skipService.getRoute(sliceAmount.toString(), job);
+        const quotedRate = this.calculateRate(parseFloat(route.amountOut), sliceAmount, job);
+        slice.priceCheck = this.priceService.checkRouteDeviation(
+          quotedRate,
+          sourcePrice,
+          prices.get(destPriceKey),
+          job.maxPriceDeviationPercent
+        );
+        const violations = await this.checkRoutePolicy(route, slice.costBasisUSD);
+
+        if (quotedRate < job.minEffectiveRate) {
+          logger.warn(`[${job.name}] TWAP slice ${i + 1} rate ${quotedRate} below minimum ${job.minEffectiveRate}, skipping slice`);
+          slice.error = `Rate too low (${quotedRate.toFixed(6)} < ${job.minEffectiveRate})`;
+          slice.effectiveRate = quotedRate;
+        } else if (!slice.priceCheck.passed) {
+          slice.error = this.describeDeviation(slice.priceCheck, job);
+          slice.effectiveRate = quotedRate;
+          logger.warn(`[${job.name}] TWAP slice ${i + 1}: ${slice.error}, skipping slice`);
+        } else if (violations.length > 0) {
+          slice.error = `Route breaks the route policy: ${violations.join('; ')}`;
+          slice.effectiveRate = quotedRate;
+          logger.warn(`[${job.name}] TWAP slice ${i + 1}: ${slice.error}, skipping slice`);
+          await this.notificationService.notify('twap_slice_skipped', 'warning', { job: job.name, slice: i + 1, reason: slice.error });
+        } else {
+          slice.toAmount = route.amountOut;
+          slice.status = 'pending';
+          if (!job.dryRun) {
+            await this.transactionLogger.savePending(slice);
+          }
+
+          const result = await this.skipService.executeSwap(route, job.dryRun, job, this.journalProgress(slice));
+
+          if (result.timedOut) {
+            // Stop slicing: no new swap may start while this one's funds are in flight
+            slice.status = 'timed_out';
+            slice.error = `Timed out after ${job.timeoutMinutes} minutes, still tracking in background`;
+            slice.chainTransactions = result.chainTransactions;
+            slice.txHash = this.getPrimaryTxHash(result);
+            await this.transactionLogger.savePending(slice);
+            slices.push(slice);
+            this.trackInFlight(slice, route, result.completion!);
+            logger.warn(`[${job.name}] TWAP slice ${i + 1} timed out, halting remaining slices`);
+            break;
+          }
+
+          const fees = await this.getFees(route, result, job);
+          slice.toAmount = result.amountOut || route.amountOut;
+          slice.effectiveRate = this.calculateRate(parseFloat(slice.toAmount), sliceAmount, job);
+          slice.priceCheck = this.withExecutedRate(slice.priceCheck, slice.effectiveRate);
+          slice.txHash = this.getPrimaryTxHash(result);
+          slice.status = result.success ? 'completed' : 'failed';
+          slice.chainTransactions = fees.chainTransactions;
+          slice.gasFeesUSD = fees.totalUSD;
+          slice.networkFeesUSD = fees.networkFeesUSD;
+          slice.routeFeesUSD = fees.routeFeesUSD;
+          slice.routeFees = fees.routeFees;
+          slice.realized = await this.realizeGains(slice, job);
+        }
+      } catch (error: any) {
+        logger.error(`[${job.name}] TWAP slice ${i + 1} failed: ${String(error.message || error)}`);
+        slice.status = 'failed';
+        slice.error = error.message;
+      }
+
+      await this.transactionLogger.logTransaction(slice);
+      slices.push(slice);
+    }
+
+    parent = this.aggregateTwap(parent, slices, job, sliceCount);
+    const completed = slices.filter(slice => slice.status === 'completed');
+    const averageRate = parent.effectiveRate;
+
+    if (slices.some(slice => slice.status === 'timed_out')) {
+      // Finalized by refreshTwapParent once the in-flight slice settles
+      parent.status = 'timed_out';
+      await this.transactionLogger.savePending(parent);
+    } else {
+      await this.transactionLogger.logTransaction(parent);
+    }
+
+    const message = `[${job.name}] TWAP swap ${parent.status}: ${completed.length}/${sliceCount} slices, ` +
+      `${this.formatSource(parent.fromAmount, job)} ${job.sourceSymbol} → ${this.formatDest(parent.toAmount, job)} ${job.destSymbol} ` +
+      `(avg rate ${averageRate.toFixed(6)})`;
+
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
+    console.log(`📊 TWAP COMPLETE: ${completed.length}/${sliceCount} slices executed`);
+    console.log(`✅ Sent: ${this.formatSource(parent.fromAmount, job)} ${job.sourceSymbol}`);
+    console.log(`✅ Received: ${this.formatDest(parent.toAmount, job)} ${job.destSymbol}`);
+    console.log(`📈 Average Rate: ${averageRate.toFixed(6)} ${job.destSymbol} per ${job.sourceSymbol}`);
+    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n');
+
+    logSwap(message, { transaction: parent });
+    await this.notificationService.notify(
+      'twap_completed',
+      completed.length === sliceCount ? 'success' : completed.length > 0 || parent.status === 'timed_out' ? 'warning' : 'error',
+      {
+        job: job.name,
+        completedSlices: completed.length,
+        slices: sliceCount,
+        amountIn: this.formatSource(parent.fromAmount, job),
+        amountOut: this.formatDest(parent.toAmount, job),
+        sourceSymbol: job.sourceSymbol,
+        destSymbol: job.destSymbol,
+        averageRate: averageRate.toFixed(6),
+      },
+      parent
+    );
+
+    return parent;
+  }
+
+  // Waits in the background for a timed-out swap to settle, then finalizes its record
+  // and sends a follow-up notification. New swaps are held off until it's done.
+  private trackInFlight(
+    transaction: SwapTransaction,
+    route: any,
+    completion: Promise<SwapOutcome & { settled?: boolean }>
+  ): void {
+    const label = `[${transaction.jobName || 'default'}] Swap ${transaction.id}`;
+
+    const tracking = completion
+      .then(async outcome => {
+        const latest = this.transactionLogger.getTransaction(transaction.id) || transaction;
+        const status: SwapTransaction['status'] = outcome.success
+          ? 'completed'
+          : outcome.settled === false ? 'stuck' : 'failed';
+
+        let final: SwapTransaction = {
+          ...latest,
+          status,
+          error: outcome.success ? undefined : outcome.error,
+          chainTransactions: outcome.chainTransactions.length > 0 ? outcome.chainTransactions : latest.chainTransactions,
+          toAmount: outcome.amountOut || latest.toAmount,
+          updatedAt: new Date().toISOString(),
+        };
+
+        if (status === 'completed') {
+          const job = this.getJobForRecord(final);
+          const fees = await this.feeService.getSwapFees(route, final.chainTransactions || []);
+          const executedRate = this.calculateRate(parseFloat(final.toAmount), parseFloat(final.fromAmount), job);
+          final = {
+            ...final,
+            chainTransactions: fees.chainTransactions,
+            gasFeesUSD: fees.totalUSD,
+            networkFeesUSD: fees.networkFeesUSD,
+            routeFeesUSD: fees.routeFeesUSD,
+            routeFees: fees.routeFees,
+            effectiveRate: executedRate,
+            priceCheck: this.withExecutedRate(final.priceCheck, executedRate),
+            txHash: final.txHash || this.getPrimaryTxHash(final),
+          };
+          final.realized = await this.realizeGains(final, job);
+        }
+
+        await this.transactionLogger.logTransaction(final);
+        if (final.parentId) {
+          await this.refreshTwapParent(final.parentId);
+          const parent = this.transactionLogger.getTransaction(final.parentId);
+          if (parent) {
+            this.recordOutcome(parent);
+          }
+        } else {
+          this.recordOutcome(final);
+        }
+
+        logger.info(`${label} settled after timeout: ${status}`);
+        await this.notificationService.notify(
+          'swap_settled',
+          status === 'completed' ? 'success' : status === 'failed' ? 'error' : 'warning',
+          { label, status, detail: final.error ? ` (${final.error})` : '' },
+          final
+        );
+      })
+      .catch((error: any) => {
+        logger.error(`${label} background tracking failed: ${error.message || error}`);
+      })
+      .finally(() => {
+        this.inFlight.delete(transaction.id);
+      });
+
+    this.inFlight.set(transaction.id, tracking);
+  }
+
+  // Re-aggregates a TWAP parent from its slices; finalizes it once none are still in flight
+  private async refreshTwapParent(parentId: string): Promise<void> {
+    const parent = this.transactionLogger.getTransaction(parentId);
+    if (!parent || !parent.twap) {
+      return;
+    }
+
+    const slices = this.transactionLogger.getSlices(parentId);
+    const note = parent.error?.startsWith('TWAP interrupted') ? parent.error : undefined;
+    const aggregated = this.aggregateTwap(parent, slices, this.getJobForRecord(parent), parent.twap.plannedSlices);
+    aggregated.updatedAt = new Date().toISOString();
+
+    if (slices.some(slice => slice.status === 'pending' || slice.status === 'timed_out')) {
+      aggregated.status = 'timed_out';
+      aggregated.error = note || 'Waiting on an in-flight TWAP slice';
+      await this.transactionLogger.savePending(aggregated);
+      return;
+    }
+
+    if (note) {
+      aggregated.error = aggregated.error ? `${note}; ${aggregated.error}` : note;
+    }
+    await this.transactionLogger.logTransaction(aggregated);
+  }
+
+  private getJobForRecord(transaction: SwapTransaction): SwapConfig {
+    return getSwapJob(transaction.jobName || 'default') || swapConfig;
+  }
+
+  // Rolls TWAP slices up into their parent record: totals, average rate and slice counts
+  private aggregateTwap(
+    parent: SwapTransaction,
+    slices: SwapTransaction[],
+    job: SwapConfig,
+    plannedSlices: number
+  ): SwapTransaction {
+    const completed = slices.filter(slice => slice.status === 'completed');
+    const totalIn = completed.reduce((sum, slice) => sum + parseFloat(slice.fromAmount), 0);
+    const totalOut = completed.reduce((sum, slice) => sum + parseFloat(slice.toAmount), 0);
+    const costBasisUSD = completed.reduce((sum, slice) => sum + slice.costBasisUSD, 0);
+    const averageRate = totalIn > 0 ? this.calculateRate(totalOut, totalIn, job) : 0;
+    const failedCount = plannedSlices - completed.length;
+
+    return {
+      ...parent,
+      fromAmount: totalIn.toString(),
+      toAmount: totalOut.toString(),
+      kyvePrice: totalIn > 0 ? costBasisUSD / (totalIn / Math.pow(10, job.sourceDecimals)) : 0,
+      usdcPrice: completed.length > 0 ? completed[completed.length - 1].usdcPrice : 0,
+      costBasisUSD,
+      gasFeesUSD: completed.reduce((sum, slice) => sum + slice.gasFeesUSD, 0),
+      networkFeesUSD: completed.reduce((sum, slice) => sum + (slice.networkFeesUSD || 0), 0),
+      routeFeesUSD: completed.reduce((sum, slice) => sum + (slice.routeFeesUSD || 0), 0),
+      effectiveRate: averageRate,
+      txHash: completed.length > 0 ? completed[0].txHash : '',
+      status: completed.length > 0 ? 'completed' : 'failed',
+      error: failedCount > 0 ? `${failedCount}/${plannedSlices} TWAP slices did not execute` : undefined,
+      chainTransactions: completed.flatMap(slice => slice.chainTransactions || []),
+      twap: {
+        sliceIds: slices.map(slice => slice.id),
+        plannedSlices,
+        completedSlices: completed.length,
+        windowMinutes: parent.twap?.windowMinutes ?? job.twapWindowMinutes,
+        totalReceived: totalOut.toString(),
+        averageRate,
+      },
+    };
+  }
+
+  // Consumes tax lots for a completed swap. Dry runs sell nothing, so they leave the ledger alone.
+  // Proceeds are the destination amount at the destination asset's USD price at swap time.
+  private async realizeGains(transaction: SwapTransaction, job: SwapConfig): Promise<RealizedGain | undefined> {
+    if (job.dryRun || transaction.status !== 'completed' || transaction.realized) {
+      return transaction.realized;
+    }
+
+    try {
+      const quantity = parseFloat(transaction.fromAmount) / Math.pow(10, job.sourceDecimals);
+      const proceedsUSD = (parseFloat(transaction.toAmount) / Math.pow(10, job.destDecimals)) * (transaction.usdcPrice || 1);
+      const realized = await this.lotLedger.consume(
+        job.sourceSymbol,
+        quantity,
+        proceedsUSD,
+        transaction.timestamp,
+        config.taxLots.method
       );
 
-      return transaction;
-    } finally {
-      this.isRunning = false;
+      logger.info(`[${job.name}] Realized ${realized.gainUSD >= 0 ? 'gain' : 'loss'} of $${Math.abs(realized.gainUSD).toFixed(2)} (${realized.holdingPeriod}-term, ${realized.method.toUpperCase()})`);
+      return realized;
+    } catch (error: any) {
+      logger.error(`[${job.name}] Failed to consume tax lots for ${transaction.id}: ${error.message || error}`);
+      return undefined;
+    }
+  }
+
+  // Dry runs pay nothing, so only real executions get fee lookups
+  private async getFees(route: any, result: { chainTransactions?: ChainTransaction[] }, job: SwapConfig): Promise<SwapFees> {
+    if (job.dryRun) {
+      return { chainTransactions: [], routeFees: [], networkFeesUSD: 0, routeFeesUSD: 0, totalUSD: 0 };
+    }
+    return this.feeService.getSwapFees(route, result.chainTransactions || []);
+  }
+
+  // Extract primary tx hash from chainTransactions or result
+  private getPrimaryTxHash(result: { chainTransactions?: Array<{ txHash: string }>; txHash?: string }): string {
+    return result.chainTransactions && result.chainTransactions.length > 0
+      ? result.chainTransactions[0].txHash
+      : (result.txHash || 'PENDING');
+  }
+
+  // Destination units per source unit, corrected for differing token decimals
+  private calculateRate(amountOut: number, amountIn: number, job: SwapConfig): number {
+    return (amountOut / Math.pow(10, job.destDecimals)) / (amountIn / Math.pow(10, job.sourceDecimals));
+  }
+
+  // Notes how far the rate actually received landed from the oracle rate checked up front
+  private withExecutedRate(check: PriceDeviationCheck | undefined, executedRate: number): PriceDeviationCheck | undefined {
+    if (!check) {
+      return undefined;
+    }
+    return {
+      ...check,
+      executedRate,
+      executedDeviationPercent: ((executedRate - check.oracleRate) / check.oracleRate) * 100,
+    };
+  }
+
+  private describeDeviation(check: PriceDeviationCheck, job: SwapConfig): string {
+    return `Route rate ${check.routeRate.toFixed(6)} deviates ${this.formatDeviation(check.deviationPercent)} ` +
+      `from oracle rate ${check.oracleRate.toFixed(6)} ${job.destSymbol} per ${job.sourceSymbol} ` +
+      `(max ±${check.maxDeviationPercent}%, oracle: ${check.oracleSource})`;
+  }
+
+  private formatDeviation(percent: number): string {
+    return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+  }
+
+  private formatSource(amount: string, job: SwapConfig): string {
+    return this.walletManager.formatAmount(amount, job.sourceDecimals);
+  }
+
+  private formatDest(amount: string, job: SwapConfig): string {
+    return this.walletManager.formatAmount(amount, job.destDecimals);
+  }
+
+  // Resolves once every timed-out swap being tracked in the background has settled
+  async waitForInFlight(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(this.inFlight.values());
     }
   }
 
-  async getStatus(): Promise<any> {
+  // Loads stored history without connecting to any chain
+  async ready(): Promise<void> {
+    await this.transactionLogger.ready();
+    await this.lotLedger.ready();
+    await this.priceTrigger.ready();
+  }
+
+  // Reads every balance, which also refreshes the balance gauges
+  async refreshBalances(): Promise<void> {
+    await this.walletManager.getAllBalances();
+  }
+
+  isJobRunning(jobName: string): boolean {
+    return this.runningJobs.has(jobName);
+  }
+
+  getTransaction(id: string): SwapTransaction | undefined {
+    return this.transactionLogger.getTransaction(id);
+  }
+
+  getHistory(query: TransactionQuery): HistoryPage {
+    const { transactions, total } = this.transactionLogger.queryTransactions(query);
+    return { transactions, total, limit: query.limit ?? total, offset: query.offset || 0 };
+  }
+
+  // Wallet balances formatted in whole units; 'unavailable' where a lookup failed
+  async getFormattedBalances(): Promise<BotStatus['balances']> {
     const balances = await this.walletManager.getAllBalances();
+    return {
+      kyve: balances.kyve ? this.walletManager.formatAmount(balances.kyve.amount) : '0',
+      usdc: Object.fromEntries(
+        Object.entries(balances.usdc).map(([chain, balance]) => [
+          chain,
+          balance ? this.walletManager.formatAmount(balance.amount, balance.decimals) : 'unavailable',
+        ])
+      ),
+    };
+  }
+
+  async getStatus(): Promise<BotStatus> {
+    const balances = await this.getFormattedBalances();
     const stats = {
       totalTransactions: this.transactionLogger.getTransactions().length,
       successfulTransactions: this.transactionLogger.getSuccessfulTransactions().length,
@@ -243,18 +1374,54 @@ export class SwapOrchestrator {
       averageRate: this.transactionLogger.getAverageRate(),
     };
 
+    const claims = this.transactionLogger.getRewardClaims().filter(claim => claim.status === 'completed');
+    const rewardClaims = {
+      autoClaim: config.rewards.autoClaim,
+      claimCommission: config.rewards.claimCommission,
+      totalClaims: claims.length,
+      totalClaimedKyve: claims.reduce(
+        (sum, claim) => sum + (parseFloat(claim.rewardsAmount) + parseFloat(claim.commissionAmount)) / 1e6,
+        0
+      ),
+      totalClaimedUSD: claims.reduce((sum, claim) => sum + claim.valueUSD, 0),
+    };
+
+    const jobs = swapJobs.map(job => ({
+      name: job.name,
+      isRunning: this.runningJobs.has(job.name),
+      pair: `${job.sourceSymbol} (${job.sourceChainId}) → ${job.destSymbol} (${getChainDisplayName(job.destChainId)})`,
+      schedule: job.schedule,
+      executionMode: job.executionMode === 'twap'
+        ? `twap (${job.twapSlices} slices over ${job.twapWindowMinutes} min)`
+        : 'single',
+      minSwapAmountUSD: job.minSwapAmountUSD,
+      maxSwapAmountUSD: job.maxSwapAmountUSD,
+      maxSlippage: job.maxSlippage,
+      maxPriceDeviationPercent: job.maxPriceDeviationPercent,
+      dryRun: job.dryRun,
+      destinationAddress: job.destAddress,
+      autoDestinations: job.autoDestinations,
+      trigger: job.triggerMode === 'price' ? this.priceTrigger.getStatus(job) : undefined,
+      statistics: {
+        totalTransactions: this.transactionLogger.getTransactions(job.name).length,
+        successfulTransactions: this.transactionLogger.getSuccessfulTransactions(job.name).length,
+        totalVolumeUSD: this.transactionLogger.getTotalVolumeUSD(job.name),
+        averageRate: this.transactionLogger.getAverageRate(job.name),
+      },
+    }));
+
     return {
-      isRunning: this.isRunning,
+      isRunning: this.runningJobs.size > 0,
+      inFlightSwaps: Array.from(this.inFlight.keys()),
       walletAddresses: {
         kyve: this.walletManager.getKyveAddress(),
         ethereum: this.walletManager.getEthereumAddress(),
         base: this.walletManager.getBaseAddress(),
       },
-      balances: {
-        kyve: balances.kyve ? this.walletManager.formatAmount(balances.kyve.amount) : '0',
-        usdc: balances.usdc ? this.walletManager.formatAmount(balances.usdc.amount) : '0',
-      },
+      balances,
       statistics: stats,
+      rewardClaims,
+      jobs,
       config: {
         minSwapAmountUSD: swapConfig.minSwapAmountUSD,
         maxSwapAmountUSD: swapConfig.maxSwapAmountUSD,
@@ -262,13 +1429,133 @@ export class SwapOrchestrator {
         schedule: swapConfig.schedule,
         dryRun: swapConfig.dryRun,
         timeoutMinutes: swapConfig.timeoutMinutes,
-        destination: swapConfig.destChainId === '8453' ? 'Base L2' : 'Ethereum L1',
+        destination: swapConfig.autoDestinations
+          ? `auto (${swapConfig.autoDestinations.join(', ')})`
+          : getChainDisplayName(swapConfig.destChainId),
         destinationAddress: swapConfig.destAddress,
       },
     };
   }
 
+  // Swap activity between `from` and `to`: outcomes, skips, volume and rates per token pair, fees
+  async buildReport(period: ReportPeriod, end: Date = new Date()): Promise<PerformanceReport> {
+    const { from, to } = reportRange(period, end);
+    const { transactions } = this.transactionLogger.queryTransactions({ from, to, topLevelOnly: true });
+    const skipped = this.transactionLogger.getSkippedSwaps(from, to);
+    const completed = transactions.filter(tx => tx.status === 'completed');
+
+    const pairs = new Map<string, SwapTransaction[]>();
+    for (const tx of completed) {
+      const key = `${tx.fromToken}→${tx.toToken}`;
+      pairs.set(key, [...(pairs.get(key) || []), tx]);
+    }
+
+    return {
+      period,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      generatedAt: new Date().toISOString(),
+      swaps: {
+        completed: completed.length,
+        failed: transactions.filter(tx => tx.status === 'failed' || tx.status === 'stuck').length,
+        pending: transactions.filter(tx => tx.status === 'pending' || tx.status === 'timed_out').length,
+        skipped: skipped.length,
+      },
+      skipReasons: skipped.reduce<Record<string, number>>((counts, skip) => {
+        counts[skip.reason] = (counts[skip.reason] || 0) + 1;
+        return counts;
+      }, {}),
+      pairs: Array.from(pairs.values()).map(swaps => this.summarizePair(swaps)),
+      volumeUSD: completed.reduce((sum, tx) => sum + tx.costBasisUSD, 0),
+      feesUSD: completed.reduce((sum, tx) => sum + (tx.gasFeesUSD || 0), 0),
+      balances: await this.getFormattedBalances(),
+    };
+  }
+
+  private summarizePair(swaps: SwapTransaction[]): ReportPairStats {
+    const sold = swaps.reduce((sum, tx) => {
+      const job = this.getJobForRecord(tx);
+      return sum + parseFloat(tx.fromAmount) / Math.pow(10, job.sourceDecimals);
+    }, 0);
+    const received = swaps.reduce((sum, tx) => {
+      const job = this.getJobForRecord(tx);
+      return sum + parseFloat(tx.toAmount) / Math.pow(10, job.destDecimals);
+    }, 0);
+    const rates = swaps.map(tx => tx.effectiveRate).filter(rate => rate > 0);
+    const oracleRates = swaps.map(tx => tx.priceCheck?.oracleRate || 0).filter(rate => rate > 0);
+
+    const averageRate = sold > 0 ? received / sold : 0;
+    const oracleAverageRate = oracleRates.length > 0
+      ? oracleRates.reduce((sum, rate) => sum + rate, 0) / oracleRates.length
+      : undefined;
+
+    return {
+      fromToken: swaps[0].fromToken,
+      toToken: swaps[0].toToken,
+      swaps: swaps.length,
+      sold,
+      received,
+      averageRate,
+      bestRate: rates.length > 0 ? Math.max(...rates) : 0,
+      worstRate: rates.length > 0 ? Math.min(...rates) : 0,
+      oracleAverageRate,
+      vsOraclePercent: oracleAverageRate ? (averageRate / oracleAverageRate - 1) * 100 : undefined,
+    };
+  }
+
+  // Builds the report for the period ending now, saves it under data/reports and
+  // optionally sends its summary to the notification channels
+  async publishReport(
+    period: ReportPeriod,
+    options: { format?: ReportFormat; send?: boolean } = {}
+  ): Promise<{ report: PerformanceReport; filePath: string }> {
+    const report = await this.buildReport(period);
+    const filePath = await saveReport(report, options.format || config.reports.format);
+    logger.info(`${period} report saved to ${filePath}`);
+
+    if (options.send) {
+      await this.notificationService.sendReport(reportTitle(report), formatReportSummary(report));
+    }
+    return { report, filePath };
+  }
+
+  async recordAcquisition(lot: Omit<TaxLot, 'id' | 'remaining'>): Promise<TaxLot> {
+    await this.lotLedger.ready();
+    return this.lotLedger.addLot(lot);
+  }
+
+  async importLots(filePath: string): Promise<TaxLot[]> {
+    await this.lotLedger.ready();
+    return this.lotLedger.importFromCSV(filePath);
+  }
+
+  // Open lots and realized gains per year; doesn't need the wallet or Skip
+  async getTaxLotReport(): Promise<{ method: LotMethod; openLots: TaxLot[]; yearlyGains: YearlyGains[] }> {
+    await this.transactionLogger.ready();
+    await this.lotLedger.ready();
+
+    return {
+      method: config.taxLots.method,
+      openLots: this.lotLedger.getOpenLots(),
+      yearlyGains: this.lotLedger.getYearlyGains(this.transactionLogger.getRealizedTransactions()),
+    };
+  }
+
   async exportTransactions(filename?: string): Promise<string> {
     return await this.transactionLogger.exportToCSV(filename);
   }
+
+  async exportHistory(format: string, options: ExportOptions): Promise<string> {
+    return await this.transactionLogger.exportTransactions(format, options);
+  }
+
+  // Copies records from a transactions.json file into the configured store
+  async importHistory(filePath: string): Promise<{ imported: number; skipped: number }> {
+    await this.transactionLogger.ready();
+    return this.transactionLogger.importFromJson(filePath);
+  }
+
+  close(): void {
+    this.transactionLogger.close();
+  }
 }
\ No newline at end of file
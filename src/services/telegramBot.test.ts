@@ -0,0 +1,179 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import http from 'http';
+import { setTimeout as delay } from 'timers/promises';
+import { FakeHttpServer, sendJson } from '../test/fakeHttpServer';
+import type { SchedulerControl } from './controlApi';
+import type { SwapOrchestrator } from './swapOrchestrator';
+import { TelegramCommandBot } from './telegramBot';
+
+const TOKEN = '123:test-token';
+const CHAT = 100;
+const OPERATOR = 1;
+const OTHER_MEMBER = 2;
+
+interface SentMessage {
+  chat_id: number;
+  text: string;
+  message_id: number;
+  reply_to_message_id?: number;
+}
+
+// Bot API stand-in: getUpdates long-polls a queue of messages, sendMessage is recorded
+class FakeBotApi {
+  sent: SentMessage[] = [];
+  private updates: Array<{ update_id: number; message: any }> = [];
+  private nextUpdateId = 1;
+  private nextMessageId = 1000;
+  readonly server = new FakeHttpServer((req, body, res) => this.handle(req.url!, JSON.parse(body || '{}'), res));
+
+  // Queues a message and returns its id, for replies to reference
+  send(from: number, text: string, chatId = CHAT, replyTo?: number): number {
+    const messageId = this.nextMessageId++;
+    this.updates.push({
+      update_id: this.nextUpdateId++,
+      message: {
+        message_id: messageId,
+        chat: { id: chatId },
+        from: { id: from },
+        text,
+        reply_to_message: replyTo ? { message_id: replyTo } : undefined,
+      },
+    });
+    return messageId;
+  }
+
+  async waitForMessages(count: number): Promise<SentMessage[]> {
+    for (let waited = 0; this.sent.length < count && waited < 5000; waited += 20) {
+      await delay(20);
+    }
+    return this.sent;
+  }
+
+  private async handle(url: string, params: any, res: http.ServerResponse): Promise<void> {
+    const reply = (result: unknown) => sendJson(res, 200, { ok: true, result });
+
+    if (url === `/bot${TOKEN}/sendMessage`) {
+      const message = { ...params, message_id: this.nextMessageId++ };
+      this.sent.push(message);
+      return reply({ message_id: message.message_id, chat: { id: params.chat_id } });
+    }
+
+    if (url === `/bot${TOKEN}/getUpdates`) {
+      if (params.offset === -1) {
+        return reply(this.updates.slice(-1));
+      }
+      const deadline = Date.now() + (params.timeout || 0) * 1000;
+      let pending = this.updates.filter(update => update.update_id >= params.offset);
+      while (pending.length === 0 && Date.now() < deadline && !res.destroyed) {
+        await delay(20);
+        pending = this.updates.filter(update => update.update_id >= params.offset);
+      }
+      return reply(pending);
+    }
+
+    sendJson(res, 404, { ok: false, description: 'Not Found' });
+  }
+}
+
+describe('TelegramCommandBot', () => {
+  const api = new FakeBotApi();
+  const executeSwap = jest.fn(async (job: { name: string }) => ({ id: 'swap-1', status: 'completed', jobName: job.name }));
+  const orchestrator = { executeSwap, isJobRunning: () => false } as unknown as SwapOrchestrator;
+  const scheduler = {
+    getState: () => ({ paused: false }),
+    pause: jest.fn(() => ({ paused: true, pausedAt: '2026-01-01T00:00:00.000Z' })),
+    resume: jest.fn(() => ({ paused: false })),
+  } as unknown as SchedulerControl;
+  let bot: TelegramCommandBot;
+
+  beforeAll(async () => {
+    const apiUrl = await api.server.listen();
+    // Sent while the bot was offline; must not run on start
+    api.send(OPERATOR, '/pause');
+
+    bot = new TelegramCommandBot(orchestrator, scheduler, {
+      botToken: TOKEN,
+      apiUrl,
+      allowedChatIds: [String(CHAT)],
+      allowedUserIds: [String(OPERATOR), String(OTHER_MEMBER)],
+      pollTimeoutSeconds: 1,
+      confirmSeconds: 2,
+    });
+    await bot.start();
+  });
+
+  afterAll(async () => {
+    await bot.stop();
+    await api.server.close();
+  });
+
+  beforeEach(() => {
+    api.sent = [];
+    executeSwap.mockClear();
+  });
+
+  it('skips commands queued while it was offline', async () => {
+    api.send(OPERATOR, '/help');
+    await api.waitForMessages(1);
+
+    expect(scheduler.pause).not.toHaveBeenCalled();
+  });
+
+  it('ignores chats and users outside the allow-list', async () => {
+    api.send(OPERATOR, '/pause', 999);
+    api.send(3, '/pause');
+    api.send(OPERATOR, '/help');
+
+    const sent = await api.waitForMessages(1);
+    await delay(100);
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({ chat_id: CHAT, text: expect.stringContaining('KYVE Swapper commands') });
+    expect(scheduler.pause).not.toHaveBeenCalled();
+  });
+
+  it('runs /swapnow once the same user replies "yes" to the prompt', async () => {
+    api.send(OPERATOR, '/swapnow');
+    const [prompt] = await api.waitForMessages(1);
+    expect(prompt.text).toContain('Swap now for default');
+    expect(executeSwap).not.toHaveBeenCalled();
+
+    api.send(OPERATOR, 'yes', CHAT, prompt.message_id);
+    const sent = await api.waitForMessages(3);
+
+    expect(sent.slice(1).map(message => message.text)).toEqual([
+      '🚀 Swap started for default',
+      'Swap completed for default',
+    ]);
+    expect(executeSwap).toHaveBeenCalledTimes(1);
+    expect(executeSwap.mock.calls[0][0]).toMatchObject({ name: 'default' });
+  });
+
+  it('only accepts the confirmation from the user who asked, and /cancel aborts', async () => {
+    api.send(OPERATOR, '/swapnow');
+    await api.waitForMessages(1);
+
+    api.send(OTHER_MEMBER, '/confirm');
+    await api.waitForMessages(2);
+    expect(api.sent[1].text).toBe('No swap is waiting for confirmation.');
+
+    api.send(OPERATOR, '/cancel');
+    await api.waitForMessages(3);
+    expect(api.sent[2].text).toBe('Swap cancelled.');
+
+    api.send(OPERATOR, '/confirm');
+    await api.waitForMessages(4);
+    expect(api.sent[3].text).toBe('No swap is waiting for confirmation.');
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+
+  it('drops a confirmation that arrives after the window', async () => {
+    api.send(OPERATOR, '/swapnow');
+    await api.waitForMessages(1);
+    await delay(2100);
+
+    api.send(OPERATOR, '/confirm');
+    await api.waitForMessages(2);
+    expect(api.sent[1].text).toBe('No swap is waiting for confirmation.');
+    expect(executeSwap).not.toHaveBeenCalled();
+  });
+});
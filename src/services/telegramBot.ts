@@ -0,0 +1,399 @@
+import axios from 'axios';
+import { setTimeout as delay } from 'timers/promises';
+import { getSwapJob, swapJobs } from '../config';
+import { SwapConfig, SwapTransaction } from '../types';
+import { getChainDisplayName } from '../utils/chains';
+import { logger } from '../utils/logger';
+import { SchedulerControl } from './controlApi';
+import { SwapOrchestrator } from './swapOrchestrator';
+
+const RETRY_DELAY_MS = 5000;
+const DEFAULT_HISTORY_SIZE = 5;
+const MAX_HISTORY_SIZE = 20;
+
+export interface TelegramCommandOptions {
+  botToken: string;
+  apiUrl: string;
+  allowedChatIds: string[];
+  allowedUserIds: string[]; // Empty: anyone in an allowed chat
+  pollTimeoutSeconds: number;
+  confirmSeconds: number;
+}
+
+// A mistake in a command, answered in the chat without being logged as a failure
+class CommandError extends Error {}
+
+// The parts of the Bot API objects the bot reads
+interface TelegramMessage {
+  message_id: number;
+  chat: { id: number };
+  from?: { id: number; username?: string };
+  text?: string;
+  reply_to_message?: { message_id: number };
+}
+
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+}
+
+// A /swapnow waiting for the same user to confirm it
+interface PendingSwap {
+  jobs: SwapConfig[];
+  userId?: number;
+  promptMessageId: number;
+  expiresAt: number;
+}
+
+const HELP = [
+  'KYVE Swapper commands:',
+  '/status - Balances, statistics and scheduler state',
+  '/balance - Wallet balances',
+  '/quote [amount] [job] - Preview a swap without executing it',
+  '/swapnow [job] - Swap now, after a confirmation',
+  '/pause - Stop scheduled swaps',
+  '/resume - Restart scheduled swaps',
+  '/history [count] - Latest swaps',
+].join('\n');
+
+/**
+ * Operates the bot from Telegram. Long-polls the Bot API for messages and
+ * answers commands from the allowed chats (and users, when configured);
+ * everything else is logged and ignored. /swapnow only runs once the same
+ * user confirms it with /confirm or a "yes" reply within the confirmation
+ * window. Commands sent while the bot was offline are skipped on start.
+ */
+export class TelegramCommandBot {
+  private offset = 0;
+  private running = false;
+  private polling: Promise<void> | null = null;
+  private abort = new AbortController();
+  private pendingSwaps: Map<number, PendingSwap> = new Map();
+
+  constructor(
+    private orchestrator: SwapOrchestrator,
+    private scheduler: SchedulerControl,
+    private options: TelegramCommandOptions
+  ) {}
+
+  async start(): Promise<void> {
+    try {
+      const queued = await this.call<TelegramUpdate[]>('getUpdates', { offset: -1, timeout: 0 });
+      if (queued.length > 0) {
+        this.offset = queued[queued.length - 1].update_id + 1;
+      }
+    } catch (error: any) {
+      logger.error(`Failed to reach the Telegram Bot API: ${error.message || error}`);
+    }
+
+    this.running = true;
+    this.polling = this.poll();
+    logger.info(`Telegram commands enabled for ${this.options.allowedChatIds.length} chat(s)`);
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    this.abort.abort();
+    await this.polling;
+    this.polling = null;
+  }
+
+  private async poll(): Promise<void> {
+    while (this.running) {
+      try {
+        const updates = await this.call<TelegramUpdate[]>(
+          'getUpdates',
+          { offset: this.offset, timeout: this.options.pollTimeoutSeconds, allowed_updates: ['message'] },
+          (this.options.pollTimeoutSeconds + 10) * 1000
+        );
+
+        for (const update of updates) {
+          this.offset = update.update_id + 1;
+          if (update.message) {
+            await this.handleMessage(update.message);
+          }
+        }
+      } catch (error: any) {
+        if (!this.running) break;
+        logger.error(`Telegram polling failed: ${error.message || error}`);
+        await delay(RETRY_DELAY_MS, undefined, { signal: this.abort.signal }).catch(() => undefined);
+      }
+    }
+  }
+
+  private async handleMessage(message: TelegramMessage): Promise<void> {
+    const text = message.text?.trim();
+    if (!text) return;
+
+    if (!this.isAllowed(message)) {
+      logger.warn(`Ignoring Telegram message from chat ${message.chat.id}, user ${message.from?.id ?? 'unknown'}`);
+      return;
+    }
+
+    const chatId = message.chat.id;
+    try {
+      const pending = this.takePendingSwap(message);
+      if (pending) {
+        await this.confirmSwap(chatId, pending, text);
+        return;
+      }
+
+      const match = text.match(/^\/(\w+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+      if (!match) return;
+
+      const [, command, rest] = match;
+      const args = (rest || '').split(/\s+/).filter(Boolean);
+      logger.info(`Telegram command /${command} from user ${message.from?.id ?? 'unknown'} in chat ${chatId}`);
+
+      const response = await this.runCommand(command.toLowerCase(), args, message);
+      if (response) {
+        await this.reply(chatId, response);
+      }
+    } catch (error: any) {
+      if (!(error instanceof CommandError)) {
+        logger.error(`Telegram command "${text}" failed: ${error.message || error}`);
+      }
+      await this.reply(chatId, `❌ ${error.message || error}`).catch(() => undefined);
+    }
+  }
+
+  private isAllowed(message: TelegramMessage): boolean {
+    const { allowedChatIds, allowedUserIds } = this.options;
+    if (!allowedChatIds.includes(String(message.chat.id))) {
+      return false;
+    }
+    return allowedUserIds.length === 0 || (!!message.from && allowedUserIds.includes(String(message.from.id)));
+  }
+
+  // The chat's pending /swapnow when this message answers it; expired requests are dropped
+  private takePendingSwap(message: TelegramMessage): PendingSwap | undefined {
+    const pending = this.pendingSwaps.get(message.chat.id);
+    if (!pending) return undefined;
+
+    if (Date.now() > pending.expiresAt) {
+      this.pendingSwaps.delete(message.chat.id);
+      return undefined;
+    }
+
+    const text = message.text!.trim();
+    const answersPrompt = message.reply_to_message?.message_id === pending.promptMessageId
+      || /^\/(confirm|cancel)(@\w+)?$/i.test(text);
+    if (!answersPrompt || message.from?.id !== pending.userId) {
+      return undefined;
+    }
+
+    this.pendingSwaps.delete(message.chat.id);
+    return pending;
+  }
+
+  private async runCommand(command: string, args: string[], message: TelegramMessage): Promise<string | null> {
+    switch (command) {
+      case 'start':
+      case 'help':
+        return HELP;
+      case 'status':
+        return this.describeStatus();
+      case 'balance':
+        return this.describeBalances();
+      case 'quote':
+        return this.describeQuote(args);
+      case 'swapnow':
+        await this.requestSwap(args[0], message);
+        return null;
+      case 'confirm':
+      case 'cancel':
+        return 'No swap is waiting for confirmation.';
+      case 'pause': {
+        const state = this.scheduler.pause();
+        return `⏸️ Scheduler paused since ${state.pausedAt}. Manual swaps still work.`;
+      }
+      case 'resume':
+        this.scheduler.resume();
+        return `▶️ Scheduler resumed for ${swapJobs.length} job(s).`;
+      case 'history':
+        return this.describeHistory(args[0]);
+      default:
+        return `Unknown command /${command}\n\n${HELP}`;
+    }
+  }
+
+  private async describeStatus(): Promise<string> {
+    const status = await this.orchestrator.getStatus();
+    const scheduler = this.scheduler.getState();
+    const { statistics } = status;
+
+    const lines = [
+      '📊 KYVE Swapper Status',
+      `Scheduler: ${scheduler.paused ? `paused since ${scheduler.pausedAt}` : 'running'}`,
+      `Swapping now: ${status.isRunning ? 'yes' : 'no'}`,
+    ];
+    if (status.inFlightSwaps.length > 0) {
+      lines.push(`In-flight swaps: ${status.inFlightSwaps.join(', ')}`);
+    }
+    lines.push(
+      '',
+      `KYVE: ${status.balances.kyve}`,
+      ...Object.entries(status.balances.usdc).map(([chain, amount]) => `USDC (${chain}): ${amount}`),
+      '',
+      `Swaps: ${statistics.successfulTransactions}/${statistics.totalTransactions} successful`,
+      `Volume: $${statistics.totalVolumeUSD.toFixed(2)}, average rate ${statistics.averageRate.toFixed(6)}`,
+      ''
+    );
+    for (const job of status.jobs) {
+      const trigger = job.trigger
+        ? `price trigger${job.trigger.lastPriceUSD !== undefined ? `, last $${job.trigger.lastPriceUSD.toFixed(4)}` : ''}`
+        : job.schedule;
+      lines.push(`${job.name}: ${job.pair} (${trigger})`);
+    }
+
+    return lines.join('\n');
+  }
+
+  private async describeBalances(): Promise<string> {
+    const balances = await this.orchestrator.getFormattedBalances();
+    return [
+      '💰 Balances',
+      `KYVE: ${balances.kyve}`,
+      ...Object.entries(balances.usdc).map(([chain, amount]) => `USDC (${chain}): ${amount}`),
+    ].join('\n');
+  }
+
+  // /quote [amount] [job]: either may be left out
+  private async describeQuote(args: string[]): Promise<string> {
+    const [first, second] = args;
+    const hasAmount = first !== undefined && /^[\d.]+$/.test(first);
+    const amount = hasAmount ? parseFloat(first) : undefined;
+    if (amount !== undefined && !(amount > 0)) {
+      throw new CommandError(`Invalid amount "${first}"`);
+    }
+
+    const job = this.resolveJob(hasAmount ? second : first);
+    const quote = await this.orchestrator.getQuote(job, amount);
+    const deviation = quote.priceCheck.deviationPercent;
+
+    const lines = [
+      `💱 Quote for ${quote.jobName}`,
+      `Send: ${quote.amountInFormatted} ${quote.fromToken} ($${quote.amountInUSD.toFixed(2)})`,
+      `Receive: ~${quote.amountOutFormatted} ${quote.toToken} on ${getChainDisplayName(quote.toChainId)}`,
+      `Rate: ${quote.effectiveRate.toFixed(6)} (${deviation >= 0 ? '+' : ''}${deviation.toFixed(2)}% vs oracle)`,
+      `Route fees: $${quote.routeFeesUSD.toFixed(4)}`,
+    ];
+    if (quote.blockers.length > 0) {
+      lines.push('', '⚠️ A swap would be cancelled:', ...quote.blockers.map(blocker => `- ${blocker}`));
+    } else {
+      lines.push('', '✅ A swap would go ahead at this quote');
+    }
+
+    return lines.join('\n');
+  }
+
+  private async describeHistory(countArg: string | undefined): Promise<string> {
+    const count = countArg !== undefined ? parseInt(countArg) : DEFAULT_HISTORY_SIZE;
+    if (!(count >= 1 && count <= MAX_HISTORY_SIZE)) {
+      throw new CommandError(`Count must be between 1 and ${MAX_HISTORY_SIZE}`);
+    }
+
+    const page = this.orchestrator.getHistory({ topLevelOnly: true, order: 'desc', limit: count });
+    if (page.transactions.length === 0) {
+      return 'No swaps recorded yet.';
+    }
+
+    return [
+      `📜 Last ${page.transactions.length} of ${page.total} swaps`,
+      ...page.transactions.map(tx => this.describeTransaction(tx)),
+    ].join('\n');
+  }
+
+  private describeTransaction(tx: SwapTransaction): string {
+    const job = getSwapJob(tx.jobName || 'default') || swapJobs[0];
+    const sent = parseFloat(tx.fromAmount) / Math.pow(10, job.sourceDecimals);
+    const received = parseFloat(tx.toAmount) / Math.pow(10, job.destDecimals);
+    return `${tx.timestamp.slice(0, 16).replace('T', ' ')} ${tx.status} [${tx.jobName || 'default'}] ` +
+      `${sent.toFixed(2)} ${tx.fromToken} → ${received.toFixed(2)} ${tx.toToken}`;
+  }
+
+  // Asks for confirmation; the swap runs when the same user answers within the window
+  private async requestSwap(jobName: string | undefined, message: TelegramMessage): Promise<void> {
+    const jobs = jobName ? [this.resolveJob(jobName)] : swapJobs;
+    this.ensureIdle(jobs);
+
+    const dryRun = jobs.every(job => job.dryRun) ? ' (dry run)' : '';
+    const prompt = await this.call<TelegramMessage>('sendMessage', {
+      chat_id: message.chat.id,
+      text: `⚠️ Swap now for ${jobs.map(job => job.name).join(', ')}${dryRun}?\n` +
+        `Reply "yes" to this message or send /confirm within ${this.options.confirmSeconds}s. /cancel to abort.`,
+      reply_to_message_id: message.message_id,
+      reply_markup: { force_reply: true, selective: true },
+    });
+
+    this.pendingSwaps.set(message.chat.id, {
+      jobs,
+      userId: message.from?.id,
+      promptMessageId: prompt.message_id,
+      expiresAt: Date.now() + this.options.confirmSeconds * 1000,
+    });
+  }
+
+  private async confirmSwap(chatId: number, pending: PendingSwap, answer: string): Promise<void> {
+    if (!/^(\/confirm(@\w+)?|yes|y)$/i.test(answer)) {
+      await this.reply(chatId, 'Swap cancelled.');
+      return;
+    }
+
+    this.ensureIdle(pending.jobs);
+    const names = pending.jobs.map(job => job.name).join(', ');
+    logger.info(`Swap confirmed through Telegram for ${names}`);
+    await this.reply(chatId, `🚀 Swap started for ${names}`);
+
+    // Runs in the background so polling continues; each result is reported back to the chat
+    (async () => {
+      for (const job of pending.jobs) {
+        const result = await this.orchestrator.executeSwap(job);
+        const outcome = result
+          ? `Swap ${result.status} for ${job.name}${result.error ? `: ${result.error}` : ''}`
+          : `No swap executed for ${job.name} (conditions not met)`;
+        await this.reply(chatId, outcome);
+      }
+    })().catch(error => logger.error(`Telegram-triggered swap failed: ${error.message || error}`));
+  }
+
+  private ensureIdle(jobs: SwapConfig[]): void {
+    const busy = jobs.filter(job => this.orchestrator.isJobRunning(job.name));
+    if (busy.length > 0) {
+      throw new CommandError(`Swap already in progress for ${busy.map(job => job.name).join(', ')}`);
+    }
+  }
+
+  private resolveJob(jobName: string | undefined): SwapConfig {
+    if (!jobName) {
+      return swapJobs[0];
+    }
+    const job = getSwapJob(jobName);
+    if (!job) {
+      throw new CommandError(`Unknown swap job "${jobName}"`);
+    }
+    return job;
+  }
+
+  private async reply(chatId: number, text: string): Promise<void> {
+    await this.call('sendMessage', { chat_id: chatId, text });
+  }
+
+  // Bot API call; `{ ok: false }` responses become errors with Telegram's description
+  private async call<T>(method: string, params: Record<string, unknown>, timeoutMs = 15000): Promise<T> {
+    try {
+      const response = await axios.post(
+        `${this.options.apiUrl.replace(/\/+$/, '')}/bot${this.options.botToken}/${method}`,
+        params,
+        { timeout: timeoutMs, signal: this.abort.signal }
+      );
+      if (!response.data?.ok) {
+        throw new Error(response.data?.description || `${method} failed`);
+      }
+      return response.data.result;
+    } catch (error: any) {
+      const description = error.response?.data?.description;
+      throw description ? new Error(`${method}: ${description}`) : error;
+    }
+  }
+}
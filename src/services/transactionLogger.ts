@@ -1,18 +1,20 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { createObjectCsvWriter } from 'csv-writer';
-import { SwapTransaction } from '../types';
+import { getSwapJob } from '../config';
+import { RewardClaim, SkippedSwap, SwapTransaction } from '../types';
 import { logger } from '../utils/logger';
+import { buildExportRows, ExportOptions, getExporter } from './exporters';
+import { createTransactionStore, DATA_DIR, PENDING_STATUSES, TransactionQuery, TransactionStore } from './transactionStore';
 
-const DATA_DIR = path.join(process.cwd(), 'data');
-const TRANSACTIONS_FILE = path.join(DATA_DIR, 'transactions.json');
 const CSV_FILE = path.join(DATA_DIR, 'swap_history.csv');
 
 export class TransactionLogger {
-  private transactions: SwapTransaction[] = [];
+  private store: TransactionStore;
   private csvWriter;
 
   constructor() {
+    this.store = createTransactionStore();
     this.csvWriter = createObjectCsvWriter({
       path: CSV_FILE,
       header: [
@@ -35,59 +37,58 @@ export class TransactionLogger {
       ],
       append: true
     });
-    this.loadTransactions();
   }
 
-  private async loadTransactions(): Promise<void> {
-    try {
-      await fs.mkdir(DATA_DIR, { recursive: true });
+  // Resolves once the store has loaded its history; await before relying on it
+  async ready(): Promise<void> {
+    await this.store.ready();
+  }
 
-      const data = await fs.readFile(TRANSACTIONS_FILE, 'utf-8');
-      this.transactions = JSON.parse(data);
-      logger.info(`Loaded ${this.transactions.length} transactions from file`);
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        logger.info('No existing transactions file found, starting fresh');
-        this.transactions = [];
-        await this.saveTransactions();
+  // Journals an in-flight swap. Written before broadcasting and on every progress
+  // callback so a crash never loses track of funds that may already be moving.
+  async savePending(transaction: SwapTransaction): Promise<void> {
+    try {
+      const saved = await this.store.savePending({ ...transaction, updatedAt: new Date().toISOString() });
+      if (saved) {
+        logger.debug(`Journal updated for ${transaction.id} (${transaction.status})`);
       } else {
-        logger.error(`Failed to load transactions: ${(error as any).message || error}`);
+        logger.debug(`Journal update for ${transaction.id} skipped; the swap is already final`);
       }
+    } catch (error: any) {
+      logger.error(`Failed to save transaction journal: ${error.message || error}`);
     }
   }
 
-  private async saveTransactions(): Promise<void> {
+  async logTransaction(transaction: SwapTransaction): Promise<void> {
     try {
-      // Remove route field to avoid circular references
-      const cleanTransactions = this.transactions.map(t => {
-        const { route, ...clean } = t;
-        return clean;
-      });
-
-      await fs.writeFile(
-        TRANSACTIONS_FILE,
-        JSON.stringify(cleanTransactions, null, 2),
-        'utf-8'
-      );
-      logger.debug('Transactions saved to file');
+      await this.store.upsert(transaction);
     } catch (error: any) {
-      logger.error(`Failed to save transactions: ${error.message || error}`);
+      logger.error(`Failed to save transaction: ${error.message || error}`);
     }
-  }
 
-  async logTransaction(transaction: SwapTransaction): Promise<void> {
-    this.transactions.push(transaction);
-    await this.saveTransactions();
-    await this.appendToCSV(transaction);
+    // TWAP parents aggregate slices that were already appended individually
+    if (!transaction.twap) {
+      await this.appendToCSV(transaction);
+    }
 
     const logData: any = {
       id: transaction.id,
+      job: transaction.jobName,
       from: `${transaction.fromAmount} ${transaction.fromToken}`,
       to: `${transaction.toAmount} ${transaction.toToken}`,
       costBasis: `$${transaction.costBasisUSD.toFixed(2)}`,
+      fees: `$${transaction.gasFeesUSD.toFixed(4)}`,
       status: transaction.status
     };
 
+    if (transaction.parentId) {
+      logData.parentId = transaction.parentId;
+    }
+
+    if (transaction.twap) {
+      logData.slices = `${transaction.twap.completedSlices}/${transaction.twap.plannedSlices}`;
+    }
+
     if (transaction.chainTransactions && transaction.chainTransactions.length > 0) {
       logData.chainTxs = transaction.chainTransactions
         .filter(tx => tx.txHash) // Only include transactions with valid txHash
@@ -98,16 +99,66 @@ export class TransactionLogger {
     logger.info('Transaction logged:', logData);
   }
 
+  async logRewardClaim(claim: RewardClaim): Promise<void> {
+    try {
+      await this.store.addRewardClaim(claim);
+    } catch (error: any) {
+      logger.error(`Failed to save reward claims: ${error.message || error}`);
+    }
+
+    logger.info('Reward claim logged:', {
+      id: claim.id,
+      job: claim.jobName,
+      rewards: `${claim.rewardsAmount} ${claim.denom}`,
+      commission: `${claim.commissionAmount} ${claim.denom}`,
+      value: `$${claim.valueUSD.toFixed(2)}`,
+      txHash: claim.txHash,
+      status: claim.status,
+    });
+  }
+
+  getRewardClaims(): RewardClaim[] {
+    return this.store.getRewardClaims();
+  }
+
+  async logSkippedSwap(skip: SkippedSwap): Promise<void> {
+    try {
+      await this.store.addSkippedSwap(skip);
+    } catch (error: any) {
+      logger.error(`Failed to save skipped swap: ${error.message || error}`);
+    }
+  }
+
+  getSkippedSwaps(from?: Date, to?: Date): SkippedSwap[] {
+    return this.store.getSkippedSwaps(from, to);
+  }
+
+  // One-time takeover of the JSON backend's files by the SQLite store; run before swapping
+  async importLegacyHistory(): Promise<void> {
+    await this.store.importLegacyFiles();
+  }
+
+  // Copies swap records from a legacy transactions.json into the active store
+  async importFromJson(filePath: string): Promise<{ imported: number; skipped: number }> {
+    const result = await this.store.importFromJson(filePath);
+    logger.info(`Imported ${result.imported} transactions from ${filePath} (${result.skipped} already present)`);
+    return result;
+  }
+
   private async appendToCSV(transaction: SwapTransaction): Promise<void> {
     try {
+      const job = getSwapJob(transaction.jobName || 'default');
+      const sourceDecimals = job?.sourceDecimals ?? 6;
+      const destDecimals = job?.destDecimals ?? 6;
+
       // Don't spread transaction - it may contain route with circular references
       const csvRecord = {
         Timestamp: transaction.timestamp,
         'Transaction ID': transaction.id,
         'From Token': transaction.fromToken,
         'To Token': transaction.toToken,
-        'From Amount': (parseFloat(transaction.fromAmount) / 1000000).toFixed(6),
-        'To Amount': (parseFloat(transaction.toAmount) / 1000000).toFixed(6),
+        'From Amount': (parseFloat(transaction.fromAmount) / Math.pow(10, sourceDecimals)).toFixed(sourceDecimals),
+        'To Amount': (parseFloat(transaction.toAmount) / Math.pow(10, destDecimals)).toFixed(destDecimals),
         'KYVE Price (USD)': transaction.kyvePrice.toFixed(6),
         'USDC Price (USD)': transaction.usdcPrice.toFixed(4),
         'Cost Basis (USD)': transaction.costBasisUSD.toFixed(2),
@@ -128,90 +179,83 @@ export class TransactionLogger {
   }
 
   async exportToCSV(filename?: string): Promise<string> {
-    const exportPath = filename ? path.join(DATA_DIR, filename) : CSV_FILE;
+    return this.exportTransactions('default', { currency: 'USD' }, filename);
+  }
+
+  // Writes completed swaps in the given exporter format (see exporters.ts) to data/
+  async exportTransactions(format: string, options: ExportOptions, filename?: string): Promise<string> {
+    const exporter = getExporter(format);
+    const exportPath = filename
+      ? path.join(DATA_DIR, filename)
+      : format === 'default' ? CSV_FILE : path.join(DATA_DIR, this.getExportFilename(exporter.format, exporter.extension, options));
 
     try {
-      const writer = createObjectCsvWriter({
-        path: exportPath,
-        header: [
-          { id: 'date', title: 'Date' },
-          { id: 'sentAmount', title: 'Sent Amount' },
-          { id: 'sentCurrency', title: 'Sent Currency' },
-          { id: 'receivedAmount', title: 'Received Amount' },
-          { id: 'receivedCurrency', title: 'Received Currency' },
-          { id: 'feeAmount', title: 'Fee Amount' },
-          { id: 'feeCurrency', title: 'Fee Currency' },
-          { id: 'netWorthAmount', title: 'Net Worth Amount' },
-          { id: 'netWorthCurrency', title: 'Net Worth Currency' },
-          { id: 'label', title: 'Label' },
-          { id: 'description', title: 'Description' },
-          { id: 'txHash', title: 'TxHash' },
-          { id: 'chainTransactions', title: 'Chain Transactions' }
-        ]
-      });
-
-      const records = this.transactions
-        .filter(tx => tx.status === 'completed') // Only export successful swaps
-        .map(tx => {
-          // Determine destination chain name
-          const destChainName = tx.toChainId === '8453' ? 'Base L2' :
-                               tx.toChainId === '1' ? 'Ethereum L1' :
-                               `Chain ${tx.toChainId}`;
-
-          // Format chain transactions for CSV
-          const chainTxs = tx.chainTransactions && tx.chainTransactions.length > 0
-            ? tx.chainTransactions
-                .filter(ctx => ctx.txHash)
-                .map(ctx => `${ctx.chainId}:${ctx.txHash}`)
-                .join(' | ')
-            : tx.txHash;
-
-          return {
-            date: new Date(tx.timestamp).toISOString().split('T')[0], // YYYY-MM-DD format
-            sentAmount: (parseFloat(tx.fromAmount) / 1000000).toFixed(6),
-            sentCurrency: tx.fromToken,
-            receivedAmount: (parseFloat(tx.toAmount) / 1000000).toFixed(6),
-            receivedCurrency: tx.toToken,
-            feeAmount: tx.gasFeesUSD.toFixed(4),
-            feeCurrency: 'USD',
-            netWorthAmount: tx.costBasisUSD.toFixed(2),
-            netWorthCurrency: 'USD',
-            label: 'Crypto Swap',
-            description: `Swapped ${tx.fromToken} to ${tx.toToken} on ${destChainName} via Skip Protocol`,
-            txHash: tx.txHash,
-            chainTransactions: chainTxs
-          };
-        });
-
-      await writer.writeRecords(records);
-      logger.info(`Exported ${records.length} transactions to ${exportPath}`);
+      const rows = await buildExportRows(this.store.query({ status: ['completed'], from: options.from, to: options.to }), options);
+      await fs.writeFile(exportPath, exporter.render(rows, options.currency), 'utf-8');
+      logger.info(`Exported ${rows.length} transactions to ${exportPath} (${exporter.description}, ${options.currency})`);
       return exportPath;
     } catch (error: any) {
-      logger.error(`Failed to export to CSV: ${error.message || error}`);
+      logger.error(`Failed to export transactions: ${error.message || error}`);
       throw error;
     }
   }
 
-  getTransactions(): SwapTransaction[] {
-    return this.transactions;
+  private getExportFilename(format: string, extension: string, options: ExportOptions): string {
+    const from = options.from ? options.from.toISOString().split('T')[0] : 'start';
+    const to = options.to ? options.to.toISOString().split('T')[0] : 'now';
+    return `swap_history_${format}_${from}_${to}_${options.currency.toLowerCase()}.${extension}`;
+  }
+
+  // Top-level swaps only; TWAP slices are reachable through getSlices().
+  // Records written before swap jobs existed have no jobName and belong to the default job.
+  getTransactions(jobName?: string): SwapTransaction[] {
+    return this.store.query({ jobName, topLevelOnly: true });
   }
 
-  getSuccessfulTransactions(): SwapTransaction[] {
-    return this.transactions.filter(tx => tx.status === 'completed');
+  // Filtered, paginated history straight from the store
+  queryTransactions(query: TransactionQuery): { transactions: SwapTransaction[]; total: number } {
+    return { transactions: this.store.query(query), total: this.store.count(query) };
   }
 
-  getTotalVolumeUSD(): number {
-    return this.getSuccessfulTransactions().reduce(
+  getTransaction(id: string): SwapTransaction | undefined {
+    return this.store.get(id);
+  }
+
+  // Swaps whose funds may still be moving: 'pending' and 'timed_out' records.
+  // Includes TWAP slices, since each slice is journaled on its own.
+  getPendingTransactions(jobName?: string): SwapTransaction[] {
+    return this.store.query({ jobName, status: PENDING_STATUSES });
+  }
+
+  getSlices(parentId: string): SwapTransaction[] {
+    return this.store.query({ parentId });
+  }
+
+  // Every completed record that consumed tax lots, including TWAP slices
+  getRealizedTransactions(): SwapTransaction[] {
+    return this.store.query({ status: ['completed'] }).filter(tx => tx.realized);
+  }
+
+  getSuccessfulTransactions(jobName?: string): SwapTransaction[] {
+    return this.store.query({ jobName, status: ['completed'], topLevelOnly: true });
+  }
+
+  getTotalVolumeUSD(jobName?: string): number {
+    return this.getSuccessfulTransactions(jobName).reduce(
       (sum, tx) => sum + tx.costBasisUSD,
       0
     );
   }
 
-  getAverageRate(): number {
-    const successful = this.getSuccessfulTransactions();
+  getAverageRate(jobName?: string): number {
+    const successful = this.getSuccessfulTransactions(jobName);
     if (successful.length === 0) return 0;
 
     const totalRate = successful.reduce((sum, tx) => sum + tx.effectiveRate, 0);
     return totalRate / successful.length;
   }
-}
\ No newline at end of file
+
+  close(): void {
+    this.store.close();
+  }
+}
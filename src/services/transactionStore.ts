@@ -0,0 +1,247 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { RewardClaim, SkippedSwap, SwapTransaction } from '../types';
+import { logger } from '../utils/logger';
+
+export const DATA_DIR = path.join(process.cwd(), 'data');
+export const TRANSACTIONS_FILE = path.join(DATA_DIR, 'transactions.json');
+export const REWARD_CLAIMS_FILE = path.join(DATA_DIR, 'reward_claims.json');
+export const SKIPPED_SWAPS_FILE = path.join(DATA_DIR, 'skipped_swaps.json');
+
+// Statuses of swaps whose funds may still be moving
+export const PENDING_STATUSES: SwapTransaction['status'][] = ['pending', 'timed_out'];
+
+export interface TransactionQuery {
+  jobName?: string; // Records without a jobName belong to 'default'
+  status?: SwapTransaction['status'][];
+  chainId?: string; // Matches either the source or the destination chain
+  from?: Date;
+  to?: Date;
+  parentId?: string;
+  topLevelOnly?: boolean; // Exclude TWAP slices
+  order?: 'asc' | 'desc'; // By timestamp, default asc
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Persistence for swap records and reward claims. Reads are synchronous so
+ * callers can treat history like an in-memory list; writes are durable once
+ * the returned promise resolves.
+ */
+export interface TransactionStore {
+  readonly backend: 'sqlite' | 'json';
+  ready(): Promise<void>;
+  upsert(transaction: SwapTransaction): Promise<void>;
+  // Writes a pending/timed_out journal entry unless the stored record has already
+  // reached a final status. Returns false when the write was skipped.
+  savePending(transaction: SwapTransaction): Promise<boolean>;
+  get(id: string): SwapTransaction | undefined;
+  query(query?: TransactionQuery): SwapTransaction[];
+  count(query?: TransactionQuery): number;
+  // Copies records from a transactions.json file; ids already stored are skipped
+  importFromJson(filePath: string): Promise<{ imported: number; skipped: number }>;
+  // Takes over transactions.json / reward_claims.json left by the JSON backend, once
+  importLegacyFiles(): Promise<void>;
+  addRewardClaim(claim: RewardClaim): Promise<void>;
+  getRewardClaims(): RewardClaim[];
+  addSkippedSwap(skip: SkippedSwap): Promise<void>;
+  getSkippedSwaps(from?: Date, to?: Date): SkippedSwap[];
+  close(): void;
+}
+
+// Drops the route field, which can hold circular HTTP objects
+export function toStoredTransaction(transaction: SwapTransaction): SwapTransaction {
+  const { route, ...clean } = transaction;
+  return clean;
+}
+
+export function parseTransactionsFile(content: string, filePath: string): SwapTransaction[] {
+  const records = JSON.parse(content);
+  if (!Array.isArray(records)) {
+    throw new Error(`${filePath} does not contain an array of transactions`);
+  }
+  return records;
+}
+
+// Original file-based store: everything in memory, rewritten to transactions.json on each write
+export class JsonTransactionStore implements TransactionStore {
+  readonly backend = 'json';
+  private transactions: SwapTransaction[] = [];
+  private rewardClaims: RewardClaim[] = [];
+  private skippedSwaps: SkippedSwap[] = [];
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadTransactions()
+      .then(() => this.loadRewardClaims())
+      .then(() => this.loadSkippedSwaps());
+  }
+
+  async ready(): Promise<void> {
+    await this.loaded;
+  }
+
+  private async loadTransactions(): Promise<void> {
+    try {
+      await fs.mkdir(DATA_DIR, { recursive: true });
+
+      const data = await fs.readFile(TRANSACTIONS_FILE, 'utf-8');
+      this.transactions = JSON.parse(data);
+      logger.info(`Loaded ${this.transactions.length} transactions from file`);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        logger.info('No existing transactions file found, starting fresh');
+        this.transactions = [];
+        await this.saveTransactions();
+      } else {
+        logger.error(`Failed to load transactions: ${error.message || error}`);
+      }
+    }
+  }
+
+  private async loadRewardClaims(): Promise<void> {
+    try {
+      const data = await fs.readFile(REWARD_CLAIMS_FILE, 'utf-8');
+      this.rewardClaims = JSON.parse(data);
+      logger.info(`Loaded ${this.rewardClaims.length} reward claims from file`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to load reward claims: ${error.message || error}`);
+      }
+    }
+  }
+
+  private async loadSkippedSwaps(): Promise<void> {
+    try {
+      const data = await fs.readFile(SKIPPED_SWAPS_FILE, 'utf-8');
+      this.skippedSwaps = JSON.parse(data);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error(`Failed to load skipped swaps: ${error.message || error}`);
+      }
+    }
+  }
+
+  private async saveTransactions(): Promise<void> {
+    try {
+      await fs.writeFile(TRANSACTIONS_FILE, JSON.stringify(this.transactions, null, 2), 'utf-8');
+      logger.debug('Transactions saved to file');
+    } catch (error: any) {
+      logger.error(`Failed to save transactions: ${error.message || error}`);
+    }
+  }
+
+  async upsert(transaction: SwapTransaction): Promise<void> {
+    this.replace(toStoredTransaction(transaction));
+    await this.saveTransactions();
+  }
+
+  async savePending(transaction: SwapTransaction): Promise<boolean> {
+    const existing = this.get(transaction.id);
+    if (existing && !PENDING_STATUSES.includes(existing.status)) {
+      return false;
+    }
+
+    await this.upsert(transaction);
+    return true;
+  }
+
+  private replace(transaction: SwapTransaction): void {
+    const index = this.transactions.findIndex(tx => tx.id === transaction.id);
+    if (index >= 0) {
+      this.transactions[index] = transaction;
+    } else {
+      this.transactions.push(transaction);
+    }
+  }
+
+  get(id: string): SwapTransaction | undefined {
+    return this.transactions.find(tx => tx.id === id);
+  }
+
+  query(query: TransactionQuery = {}): SwapTransaction[] {
+    const from = query.from?.getTime();
+    const to = query.to?.getTime();
+
+    const matches = this.transactions
+      .filter(tx => !query.jobName || (tx.jobName || 'default') === query.jobName)
+      .filter(tx => !query.status || query.status.includes(tx.status))
+      .filter(tx => !query.chainId || tx.fromChainId === query.chainId || tx.toChainId === query.chainId)
+      .filter(tx => from === undefined || new Date(tx.timestamp).getTime() >= from)
+      .filter(tx => to === undefined || new Date(tx.timestamp).getTime() <= to)
+      .filter(tx => !query.parentId || tx.parentId === query.parentId)
+      .filter(tx => !query.topLevelOnly || !tx.parentId)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    if (query.order === 'desc') {
+      matches.reverse();
+    }
+
+    const offset = query.offset || 0;
+    return matches.slice(offset, query.limit !== undefined ? offset + query.limit : undefined);
+  }
+
+  count(query: TransactionQuery = {}): number {
+    return this.query({ ...query, limit: undefined, offset: undefined }).length;
+  }
+
+  async importFromJson(filePath: string): Promise<{ imported: number; skipped: number }> {
+    const records = parseTransactionsFile(await fs.readFile(filePath, 'utf-8'), filePath);
+    const missing = records.filter(record => !this.get(record.id));
+
+    missing.forEach(record => this.replace(toStoredTransaction(record)));
+    await this.saveTransactions();
+    return { imported: missing.length, skipped: records.length - missing.length };
+  }
+
+  async addRewardClaim(claim: RewardClaim): Promise<void> {
+    this.rewardClaims.push(claim);
+
+    try {
+      await fs.writeFile(REWARD_CLAIMS_FILE, JSON.stringify(this.rewardClaims, null, 2), 'utf-8');
+    } catch (error: any) {
+      logger.error(`Failed to save reward claims: ${error.message || error}`);
+    }
+  }
+
+  getRewardClaims(): RewardClaim[] {
+    return [...this.rewardClaims];
+  }
+
+  async addSkippedSwap(skip: SkippedSwap): Promise<void> {
+    this.skippedSwaps.push(skip);
+
+    try {
+      await fs.writeFile(SKIPPED_SWAPS_FILE, JSON.stringify(this.skippedSwaps, null, 2), 'utf-8');
+    } catch (error: any) {
+      logger.error(`Failed to save skipped swaps: ${error.message || error}`);
+    }
+  }
+
+  getSkippedSwaps(from?: Date, to?: Date): SkippedSwap[] {
+    return this.skippedSwaps.filter(skip => {
+      const time = new Date(skip.timestamp);
+      return (!from || time >= from) && (!to || time <= to);
+    });
+  }
+
+  async importLegacyFiles(): Promise<void> {
+    // These files are this backend's own storage
+  }
+
+  close(): void {
+    // Nothing to release; every write is already on disk
+  }
+}
+
+export function createTransactionStore(): TransactionStore {
+  if (config.storage.backend === 'json') {
+    return new JsonTransactionStore();
+  }
+
+  // Loaded lazily so the JSON backend works without the native SQLite module
+  const { SqliteTransactionStore } = require('./sqliteTransactionStore') as typeof import('./sqliteTransactionStore');
+  return new SqliteTransactionStore(config.storage.sqlitePath);
+}
@@ -1,30 +1,64 @@
-import { DirectSecp256k1HdWallet, DirectSecp256k1Wallet } from '@cosmjs/proto-signing';
-import { SigningStargateClient, StargateClient } from '@cosmjs/stargate';
+import { decodeTxRaw, EncodeObject, OfflineDirectSigner } from '@cosmjs/proto-signing';
+import {
+  decodeCosmosSdkDecFromProto,
+  DistributionExtension,
+  GasPrice,
+  QueryClient,
+  setupDistributionExtension,
+  setupStakingExtension,
+  SigningStargateClient,
+  StakingExtension,
+  StargateClient,
+} from '@cosmjs/stargate';
+import { connectComet } from '@cosmjs/tendermint-rpc';
+import { fromBech32, toBech32 } from '@cosmjs/encoding';
 import { Coin } from '@cosmjs/amino';
-import { walletConfig, config } from '../config';
+import { config, evmChains } from '../config';
+import { EvmChainConfig, SwapConfig, TokenBalance } from '../types';
+import { EvmClient } from './evmClient';
+import { LocalSignerProvider, RemoteSignerProvider, SignerProvider } from './signers';
+import { metrics } from './metrics';
+import { getAddressPrefix } from '../utils/chains';
 import { logger } from '../utils/logger';
 
+export interface ClaimableRewards {
+  denom: string;
+  validators: string[]; // Validators we delegate to
+  rewards: string; // Pending delegation rewards, in base units
+  commission: string; // Pending commission of our own validator, '0' when not requested
+  validatorAddress?: string; // Our operator address, set when commission is claimable
+}
+
+export interface RewardWithdrawal extends ClaimableRewards {
+  txHash: string;
+  fee: Coin | null;
+}
+
 export class WalletManager {
-  private wallet: DirectSecp256k1HdWallet | DirectSecp256k1Wallet | null = null;
+  private signerProvider: SignerProvider;
+  private wallet: OfflineDirectSigner | null = null;
   private kyveClient: SigningStargateClient | null = null;
+  private kyveQueryClient: (QueryClient & StakingExtension & DistributionExtension) | null = null;
+  private queryClients: Map<string, StargateClient> = new Map();
+  private evmClients: Map<string, EvmClient> = new Map();
   private kyveAddress: string = '';
   private ethereumAddress: string = '';
   private baseAddress: string = '';
 
+  constructor(signerProvider?: SignerProvider) {
+    this.signerProvider = signerProvider || (config.signer.type === 'remote'
+      ? new RemoteSignerProvider({
+        url: config.signer.remoteUrl!,
+        token: config.signer.remoteToken,
+        timeoutSeconds: config.signer.timeoutSeconds,
+      })
+      : new LocalSignerProvider());
+  }
+
   async initialize(): Promise<void> {
     try {
-      if (walletConfig.mnemonic) {
-        this.wallet = await DirectSecp256k1HdWallet.fromMnemonic(walletConfig.mnemonic, {
-          prefix: 'kyve',
-        });
-        logger.info('Wallet initialized from mnemonic');
-      } else if (walletConfig.privateKey) {
-        const privateKey = Buffer.from(walletConfig.privateKey, 'hex');
-        this.wallet = await DirectSecp256k1Wallet.fromKey(privateKey, 'kyve');
-        logger.info('Wallet initialized from private key');
-      } else {
-        throw new Error('No wallet credentials provided');
-      }
+      this.wallet = await this.signerProvider.getSigner('kyve');
+      logger.info(`Wallet initialized with the ${this.signerProvider.name} signer`);
 
       const accounts = await this.wallet.getAccounts();
       this.kyveAddress = accounts[0].address;
@@ -33,10 +67,13 @@ export class WalletManager {
       this.ethereumAddress = (config as any).ethereum.evmAddress;
       this.baseAddress = (config as any).base.evmAddress;
 
-      this.kyveClient = await SigningStargateClient.connectWithSigner(
-        config.kyve.rpcUrl,
-        this.wallet
+      const cometClient = await connectComet(config.kyve.rpcUrl);
+      this.kyveClient = await SigningStargateClient.createWithSigner(
+        cometClient,
+        this.wallet,
+        { gasPrice: GasPrice.fromString(config.rewards.gasPrice) }
       );
+      this.kyveQueryClient = QueryClient.withExtensions(cometClient, setupStakingExtension, setupDistributionExtension);
 
       logger.info('Wallet manager initialized', {
         kyveAddress: this.kyveAddress,
@@ -57,6 +94,7 @@ export class WalletManager {
 
       const balance = await this.kyveClient.getBalance(this.kyveAddress, 'ukyve');
       logger.debug('KYVE balance:', balance);
+      metrics.setBalance('KYVE', config.kyve.chainId, parseFloat(balance.amount) / 1e6);
       return balance;
     } catch (error: any) {
       logger.error(`Failed to get KYVE balance: ${error.message || error}`);
@@ -64,17 +102,188 @@ export class WalletManager {
     }
   }
 
-  async getUsdcBalance(): Promise<Coin | null> {
-    // Note: USDC balance on Ethereum requires querying via EVM RPC
-    // This would need ethers.js or similar library
-    // For now, return null as we can't query EVM balances with CosmJS
-    logger.warn('USDC balance query not implemented for Ethereum - requires EVM library');
-    return null;
+  // Pending KYVE delegation rewards across all our delegations, plus our validator's
+  // commission when includeCommission is set and this wallet operates a validator
+  async getClaimableRewards(includeCommission: boolean): Promise<ClaimableRewards> {
+    if (!this.kyveQueryClient) {
+      throw new Error('Kyve client not initialized');
+    }
+
+    const validators: string[] = [];
+    let paginationKey: Uint8Array | undefined;
+    do {
+      const response = await this.kyveQueryClient.staking.delegatorDelegations(this.kyveAddress, paginationKey);
+      for (const entry of response.delegationResponses) {
+        if (entry.delegation) {
+          validators.push(entry.delegation.validatorAddress);
+        }
+      }
+      paginationKey = response.pagination?.nextKey?.length ? response.pagination.nextKey : undefined;
+    } while (paginationKey);
+
+    let rewards = '0';
+    if (validators.length > 0) {
+      const totals = await this.kyveQueryClient.distribution.delegationTotalRewards(this.kyveAddress);
+      const total = totals.total.find(coin => coin.denom === 'ukyve');
+      rewards = total ? decodeCosmosSdkDecFromProto(total.amount).floor().toString() : '0';
+    }
+
+    let commission = '0';
+    let validatorAddress: string | undefined;
+    if (includeCommission) {
+      const operatorAddress = toBech32('kyvevaloper', fromBech32(this.kyveAddress).data);
+      try {
+        const response = await this.kyveQueryClient.distribution.validatorCommission(operatorAddress);
+        const pending = response.commission?.commission.find(coin => coin.denom === 'ukyve');
+        if (pending) {
+          commission = decodeCosmosSdkDecFromProto(pending.amount).floor().toString();
+          validatorAddress = operatorAddress;
+        }
+      } catch (error: any) {
+        logger.debug(`No validator commission for ${operatorAddress}: ${error.message || error}`);
+      }
+    }
+
+    return { denom: 'ukyve', validators, rewards, commission, validatorAddress };
+  }
+
+  // Withdraws rewards from every delegation (and commission, if given) in a single transaction
+  async withdrawRewards(claimable: ClaimableRewards): Promise<RewardWithdrawal> {
+    if (!this.kyveClient) {
+      throw new Error('Kyve client not initialized');
+    }
+
+    const messages: EncodeObject[] = claimable.validators.map(validatorAddress => ({
+      typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+      value: { delegatorAddress: this.kyveAddress, validatorAddress },
+    }));
+    if (claimable.validatorAddress && claimable.commission !== '0') {
+      messages.push({
+        typeUrl: '/cosmos.distribution.v1beta1.MsgWithdrawValidatorCommission',
+        value: { validatorAddress: claimable.validatorAddress },
+      });
+    }
+
+    const result = await this.kyveClient.signAndBroadcast(this.kyveAddress, messages, 'auto', 'kyve-swapper reward claim');
+    if (result.code !== 0) {
+      throw new Error(`Reward withdrawal failed (code ${result.code}): ${result.rawLog}`);
+    }
+
+    // Amounts actually withdrawn come from the tx events; the query above is a block behind
+    const withdrawn = (type: string) => result.events
+      .filter(event => event.type === type)
+      .flatMap(event => event.attributes.filter(attr => attr.key === 'amount'))
+      .reduce((sum, attr) => sum + this.parseCoinAmount(attr.value, claimable.denom), BigInt(0));
+
+    const rewards = withdrawn('withdraw_rewards');
+    const commission = withdrawn('withdraw_commission');
+    const tx = await this.kyveClient.getTx(result.transactionHash);
+    const fee = tx ? decodeTxRaw(tx.tx).authInfo.fee?.amount || [] : [];
+
+    return {
+      ...claimable,
+      rewards: rewards > BigInt(0) ? rewards.toString() : claimable.rewards,
+      commission: commission > BigInt(0) ? commission.toString() : claimable.commission,
+      txHash: result.transactionHash,
+      fee: fee.length > 0 ? fee[0] : null,
+    };
+  }
+
+  // Sums the amount of one denom in an event value like "123ukyve,45ibc/ABC"
+  private parseCoinAmount(value: string, denom: string): bigint {
+    return value.split(',').reduce((sum, coin) => {
+      const match = coin.trim().match(/^(\d+)(.+)$/);
+      return match && match[2] === denom ? sum + BigInt(match[1]) : sum;
+    }, BigInt(0));
+  }
+
+  // Balance of a swap job's source asset, queried on the job's source chain
+  async getSourceBalance(job: SwapConfig): Promise<Coin | null> {
+    if (job.sourceChainId === config.kyve.chainId && job.sourceAsset === 'ukyve') {
+      return this.getKyveBalance();
+    }
+
+    try {
+      const client = await this.getQueryClient(job.sourceChainId, job.sourceRpcUrl);
+      const address = await this.getAddressForChain(job.sourceChainId);
+      const balance = await client.getBalance(address, job.sourceAsset);
+      logger.debug(`${job.sourceSymbol} balance on ${job.sourceChainId}:`, balance);
+      return balance;
+    } catch (error: any) {
+      logger.error(`Failed to get ${job.sourceSymbol} balance on ${job.sourceChainId}: ${error.message || error}`);
+      return null;
+    }
+  }
+
+  private async getQueryClient(chainId: string, rpcUrl: string): Promise<StargateClient> {
+    let client = this.queryClients.get(chainId);
+    if (!client) {
+      client = await StargateClient.connect(rpcUrl);
+      this.queryClients.set(chainId, client);
+    }
+    return client;
+  }
+
+  async getAddressForChain(chainId: string): Promise<string> {
+    if (chainId === config.kyve.chainId && this.kyveAddress) {
+      return this.kyveAddress;
+    }
+
+    const signer = await this.getCosmosSignerForChain(chainId);
+    const accounts = await signer.getAccounts();
+    return accounts[0].address;
+  }
+
+  // USDC balance of our address on one EVM destination chain, via balanceOf on the USDC contract
+  async getUsdcBalance(chain: EvmChainConfig): Promise<TokenBalance | null> {
+    try {
+      if (!chain.address) {
+        return null;
+      }
+
+      let client = this.evmClients.get(chain.chainId);
+      if (!client) {
+        client = new EvmClient(chain.rpcUrl);
+        this.evmClients.set(chain.chainId, client);
+      }
+
+      const [amount, decimals] = await Promise.all([
+        client.getTokenBalance(chain.usdcContract, chain.address),
+        client.getTokenDecimals(chain.usdcContract),
+      ]);
+
+      const balance: TokenBalance = {
+        chainId: chain.chainId,
+        address: chain.address,
+        denom: chain.usdcContract,
+        amount,
+        decimals,
+      };
+      logger.debug(`USDC balance on ${chain.name}:`, balance);
+      metrics.setBalance('USDC', chain.name, parseFloat(amount) / Math.pow(10, decimals));
+      return balance;
+    } catch (error: any) {
+      logger.error(`Failed to get USDC balance on ${chain.name}: ${error.message || error}`);
+      return null;
+    }
+  }
+
+  // USDC balances on every configured EVM destination chain, keyed by chain name
+  async getUsdcBalances(): Promise<Record<string, TokenBalance | null>> {
+    const balances = await Promise.all(evmChains.map(chain => this.getUsdcBalance(chain)));
+
+    const result: Record<string, TokenBalance | null> = {};
+    evmChains.forEach((chain, idx) => {
+      result[chain.name] = balances[idx];
+    });
+    return result;
   }
 
-  async getAllBalances(): Promise<{ kyve: Coin | null; usdc: Coin | null }> {
-    const kyve = await this.getKyveBalance();
-    const usdc = await this.getUsdcBalance();
+  async getAllBalances(): Promise<{ kyve: Coin | null; usdc: Record<string, TokenBalance | null> }> {
+    const [kyve, usdc] = await Promise.all([
+      this.getKyveBalance(),
+      this.getUsdcBalances(),
+    ]);
 
     return { kyve, usdc };
   }
@@ -87,34 +296,12 @@ export class WalletManager {
     return this.ethereumAddress;
   }
 
-  getWallet(): DirectSecp256k1HdWallet | DirectSecp256k1Wallet | null {
+  getWallet(): OfflineDirectSigner | null {
     return this.wallet;
   }
 
-  async getCosmosSignerForChain(chainId: string): Promise<DirectSecp256k1HdWallet | DirectSecp256k1Wallet> {
-    if (!walletConfig.mnemonic && !walletConfig.privateKey) {
-      throw new Error('No wallet credentials available');
-    }
-
-    let prefix = 'cosmos';
-    if (chainId.includes('kyve')) {
-      prefix = 'kyve';
-    } else if (chainId.includes('noble')) {
-      prefix = 'noble';
-    } else if (chainId.includes('osmosis')) {
-      prefix = 'osmo';
-    } else if (chainId.includes('axelar')) {
-      prefix = 'axelar';
-    }
-
-    if (walletConfig.mnemonic) {
-      return await DirectSecp256k1HdWallet.fromMnemonic(walletConfig.mnemonic, {
-        prefix,
-      });
-    } else {
-      const privateKey = Buffer.from(walletConfig.privateKey!, 'hex');
-      return await DirectSecp256k1Wallet.fromKey(privateKey, prefix);
-    }
+  async getCosmosSignerForChain(chainId: string): Promise<OfflineDirectSigner> {
+    return this.signerProvider.getSigner(getAddressPrefix(chainId));
   }
 
   getBaseAddress(): string {
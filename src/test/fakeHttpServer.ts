@@ -0,0 +1,49 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Routes one request of a fake API; the request body arrives fully read
+export type FakeRequestHandler = (
+  req: http.IncomingMessage,
+  body: string,
+  res: http.ServerResponse
+) => void | Promise<void>;
+
+// Local stand-in for an external HTTP API in tests, on a free loopback port.
+// Each test supplies only the routing for the API it fakes.
+export class FakeHttpServer {
+  private server: http.Server;
+
+  constructor(handler: FakeRequestHandler) {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => body += chunk);
+      req.on('end', async () => {
+        try {
+          await handler(req, body, res);
+        } catch (error: any) {
+          sendJson(res, 500, { message: error.message || String(error) });
+        }
+      });
+    });
+  }
+
+  // Resolves to the base URL to point the client under test at
+  async listen(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  // Drops keep-alive and long-poll connections too, so closing never waits on a client
+  close(): Promise<void> {
+    this.server.closeAllConnections();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+export function sendJson(res: http.ServerResponse, status: number, data: unknown): void {
+  if (res.headersSent || res.destroyed) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+}
@@ -3,10 +3,25 @@ export interface ChainTransaction {
   txHash: string;
   status: string;
   timestamp: string;
+  feeAmount?: string; // Network fee paid, in base units of feeDenom
+  feeDenom?: string;
+  feeUSD?: number;
+}
+
+export interface RouteFee {
+  type: 'relayer' | 'bridge';
+  provider: string; // Bridge ID or fee type reported by Skip
+  chainId: string;
+  amount: string; // In base units of the fee asset
+  symbol: string;
+  decimals: number;
+  usd: number;
+  operationIndex?: number; // Route operation the fee belongs to, when known
 }
 
 export interface SwapTransaction {
   id: string;
+  jobName?: string; // Swap job that produced this record (absent on records from before jobs existed)
   timestamp: string;
   fromToken: string;
   toToken: string;
@@ -14,32 +29,186 @@ export interface SwapTransaction {
   toAmount: string;
   fromChainId: string;
   toChainId: string;
-  kyvePrice: number;
-  usdcPrice: number;
+  kyvePrice: number; // USD price of the source asset (KYVE for the default job)
+  usdcPrice: number; // USD price of the destination asset
   costBasisUSD: number;
-  gasFeesUSD: number;
+  gasFeesUSD: number; // Total fees in USD: networkFeesUSD + routeFeesUSD
+  networkFeesUSD?: number; // Sum of chainTransactions[].feeUSD
+  routeFeesUSD?: number; // Sum of routeFees[].usd
+  routeFees?: RouteFee[];
   effectiveRate: number;
   txHash: string; // Primary transaction hash (usually the first one)
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'timed_out' | 'completed' | 'failed' | 'stuck';
   error?: string;
+  updatedAt?: string; // Last journal update while pending / on reconciliation
+  trackingState?: string; // Last Skip tracking state seen for this swap
   route?: any;
   chainTransactions?: ChainTransaction[]; // All intermediate transaction hashes
+  priceCheck?: PriceDeviationCheck; // Route rate vs. oracle rate, checked before execution
+  realized?: RealizedGain; // Tax lots consumed by this swap (completed, non-dry-run swaps only)
+  parentId?: string; // Set on TWAP slices: id of the aggregate parent record
+  twap?: TwapSummary; // Set on TWAP parent records only
+  destinationChoice?: DestinationChoice; // Set when the job picks its destination per swap
+}
+
+// One destination quoted by an auto-destination job
+export interface DestinationCandidate {
+  destination: string; // Destination preset name, e.g. base
+  chainId: string;
+  amountOut?: string; // Base units of the destination asset, estimated
+  amountOutUSD?: number;
+  feesUSD?: number; // Bridge and relayer fees Skip reported on the route
+  netUSD?: number; // amountOutUSD minus the relayer fees (bridge fees are already out of amountOut); what the candidates are ranked by
+  violations?: string[]; // Route policy rules the route breaks
+  error?: string; // Why no route could be quoted
+}
+
+export interface DestinationChoice {
+  chosen: string;
+  candidates: DestinationCandidate[]; // Best first
+}
+
+// Compares the rate implied by a Skip route with the rate implied by oracle prices.
+// Rates are destination units per source unit; deviations are signed percentages,
+// negative when the route pays less than the oracle suggests.
+export interface PriceDeviationCheck {
+  routeRate: number;
+  oracleRate: number; // sourcePrice / destPrice
+  sourcePrice: number;
+  destPrice: number;
+  oracleSource: string;
+  deviationPercent: number;
+  maxDeviationPercent: number;
+  passed: boolean;
+  checkedAt: string;
+  executedRate?: number; // Filled in once the swap completes
+  executedDeviationPercent?: number;
+}
+
+// Staking rewards (and optionally validator commission) withdrawn before a swap
+export interface RewardClaim {
+  id: string;
+  jobName?: string;
+  timestamp: string;
+  chainId: string;
+  address: string;
+  denom: string;
+  rewardsAmount: string; // In base units
+  commissionAmount: string; // In base units, '0' unless commission claiming is enabled
+  validators: string[];
+  price: number; // USD price of denom at claim time
+  valueUSD: number;
+  txHash: string;
+  feeAmount?: string;
+  feeUSD?: number;
+  status: 'completed' | 'failed';
+  error?: string;
+}
+
+// A scheduled or manual swap that was skipped before execution
+export interface SkippedSwap {
+  id: string;
+  jobName: string;
+  timestamp: string;
+  reason: string; // SwapSkipReason, e.g. no_balance
+}
+
+export type LotMethod = 'fifo' | 'lifo' | 'hifo';
+
+export type LotSource = 'staking_reward' | 'transfer_in' | 'manual_import';
+
+// A quantity of an asset acquired at a known USD value. Swaps draw lots down via `remaining`.
+export interface TaxLot {
+  id: string;
+  asset: string; // Symbol, e.g. KYVE
+  source: LotSource;
+  acquiredAt: string;
+  quantity: number; // Whole tokens, not base units
+  remaining: number;
+  costBasisUSD: number; // USD value of the full quantity when acquired
+  reference?: string; // Tx hash, import file or free-form note
+}
+
+export interface LotDisposal {
+  lotId: string;
+  acquiredAt: string;
+  quantity: number;
+  costBasisUSD: number;
+  proceedsUSD: number;
+  gainUSD: number;
+  holdingDays: number;
+  term: 'short' | 'long';
+}
+
+export interface RealizedGain {
+  method: LotMethod;
+  quantity: number;
+  proceedsUSD: number;
+  costBasisUSD: number;
+  gainUSD: number;
+  holdingPeriod: 'short' | 'long' | 'mixed';
+  disposals: LotDisposal[];
+  unmatchedQuantity: number; // Sold without a matching lot; counted at zero cost basis
+}
+
+export interface TwapSummary {
+  sliceIds: string[];
+  plannedSlices: number;
+  completedSlices: number;
+  windowMinutes: number;
+  totalReceived: string;
+  averageRate: number;
 }
 
 export interface PriceData {
   symbol: string;
   price: number;
   timestamp: string;
-  source: string;
+  source: string; // Sources the price was aggregated from, e.g. "coingecko+osmosis"
+  sources?: string[];
+  confidence?: number; // 0-1: share of sources that agreed, scaled down by their spread
+}
+
+export interface TokenBalance {
+  chainId: string;
+  address: string;
+  denom: string; // Token contract for EVM chains
+  amount: string; // In base units
+  decimals: number;
+}
+
+export interface EvmChainConfig {
+  name: string;
+  chainId: string;
+  rpcUrl: string;
+  address: string;
+  usdcContract: string;
 }
 
 export interface WalletConfig {
   mnemonic?: string;
   privateKey?: string;
+  keystoreFile?: string; // Encrypted keystore used instead of mnemonic/privateKey
+  keystorePassword?: string;
+  keystorePasswordFile?: string;
   addressPrefix: string;
 }
 
+export type KeystoreSecretType = 'mnemonic' | 'privateKey';
+
+// Encrypted wallet secret: an scrypt-derived key encrypts it with AES-256-GCM; binary fields are hex
+export interface KeystoreFile {
+  version: 1;
+  type: KeystoreSecretType;
+  address: string; // KYVE address of the key, for identification; authenticated with the ciphertext
+  kdf: { name: 'scrypt'; n: number; r: number; p: number; salt: string };
+  cipher: { name: 'aes-256-gcm'; iv: string; tag: string };
+  ciphertext: string;
+  createdAt: string;
+}
+
 export interface SwapConfig {
+  name: string;
   minSwapAmountUSD: number;
   maxSwapAmountUSD: number;
   swapPercentage: number;
@@ -49,15 +218,254 @@ export interface SwapConfig {
   schedule: string;
   dryRun: boolean;
   timeoutMinutes: number;
+  executionMode: 'single' | 'twap';
+  twapSlices: number;
+  twapWindowMinutes: number;
+  maxPriceDeviationPercent: number; // 0 disables the route-vs-oracle check
+  triggerMode: 'cron' | 'price'; // 'price' swaps when the trigger fires instead of on the schedule
+  triggerPriceUSD: number; // Take-profit price; with a trailing stop, the price that arms it (0 = arm at once)
+  trailingStopPercent: number; // 0 fires as soon as the target is reached
+  triggerCooldownMinutes: number;
   sourceChainId: string;
   destChainId: string;
   sourceAsset: string;
   destAsset: string;
   destAddress?: string;
+  sourceSymbol: string;
+  destSymbol: string;
+  sourceDecimals: number;
+  destDecimals: number;
+  sourceRpcUrl: string;
+  autoDestinations?: string[]; // Destination presets to quote per swap; the dest* fields hold the first
+}
+
+export type NotificationChannel = 'discord' | 'telegram' | 'slack' | 'webhook' | 'email' | 'ntfy';
+
+export type NotificationType = 'success' | 'error' | 'warning';
+// Severity used for per-channel filtering; 'success' notifications are 'info'
+export type NotificationLevel = 'info' | 'warning' | 'error';
+
+export interface EmailNotificationConfig {
+  host: string;
+  port: number;
+  secure: boolean; // TLS from the start (port 465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  from: string;
+  to: string[];
+}
+
+export interface NtfyNotificationConfig {
+  url: string;
+  topic: string;
+  token?: string;
+}
+
+export interface NotificationChannelPolicy {
+  minLevel: NotificationLevel;
+  maxPerHour: number; // 0 = unlimited
+  quietHours?: string; // 'HH:MM-HH:MM' in local time; only errors are sent during it
 }
 
 export interface NotificationConfig {
   discordWebhook?: string;
   telegramBotToken?: string;
   telegramChatId?: string;
-}
\ No newline at end of file
+  telegramApiUrl: string; // Bot API base URL, replaceable by a local fake for testing
+  slackWebhook?: string;
+  webhookUrl?: string;
+  webhookSecret?: string; // Signs generic webhook bodies with HMAC-SHA256
+  email?: EmailNotificationConfig;
+  ntfy?: NtfyNotificationConfig;
+  channels: Record<NotificationChannel, NotificationChannelPolicy>;
+  dedupWindowMinutes: number; // Repeats of the same alert within this window are collapsed; 0 disables
+  templates: Record<string, string>; // Message template overrides by event name
+}
+export interface SwapStatistics {
+  totalTransactions: number;
+  successfulTransactions: number;
+  totalVolumeUSD: number;
+  averageRate: number;
+}
+
+export interface JobStatus {
+  name: string;
+  isRunning: boolean;
+  pair: string;
+  schedule: string;
+  executionMode: string;
+  minSwapAmountUSD: number;
+  maxSwapAmountUSD: number;
+  maxSlippage: number;
+  maxPriceDeviationPercent: number;
+  dryRun: boolean;
+  destinationAddress?: string;
+  autoDestinations?: string[];
+  trigger?: PriceTriggerStatus;
+  statistics: SwapStatistics;
+}
+
+export interface BotStatus {
+  isRunning: boolean; // A swap is executing right now
+  inFlightSwaps: string[]; // Timed-out swaps still tracked in the background
+  walletAddresses: {
+    kyve: string;
+    ethereum: string;
+    base: string;
+  };
+  balances: {
+    kyve: string;
+    usdc: Record<string, string>; // Per EVM chain, 'unavailable' when the lookup failed
+  };
+  statistics: SwapStatistics;
+  rewardClaims: {
+    autoClaim: boolean;
+    claimCommission: boolean;
+    totalClaims: number;
+    totalClaimedKyve: number;
+    totalClaimedUSD: number;
+  };
+  jobs: JobStatus[];
+  config: {
+    minSwapAmountUSD: number;
+    maxSwapAmountUSD: number;
+    maxSlippage: number;
+    schedule: string;
+    dryRun: boolean;
+    timeoutMinutes: number;
+    destination: string;
+    destinationAddress?: string;
+  };
+}
+
+// Persisted state of a price-triggered job, kept across restarts
+export interface PriceTriggerState {
+  armed: boolean; // Trailing stop is tracking the peak
+  peakPriceUSD?: number;
+  lastPriceUSD?: number;
+  lastCheckedAt?: string;
+  lastFiredAt?: string;
+  cooldownUntil?: string;
+  lastFillId?: string;
+  fills: number;
+}
+
+export interface PriceTriggerStatus extends PriceTriggerState {
+  targetPriceUSD: number;
+  trailingStopPercent: number;
+  cooldownMinutes: number;
+  stopPriceUSD?: number; // Price at which an armed trailing stop fires
+}
+
+export interface SchedulerState {
+  paused: boolean;
+  pausedAt?: string;
+  jobs: string[];
+}
+
+// GET /api/status on the control API
+export interface ControlApiStatus extends BotStatus {
+  scheduler: SchedulerState;
+}
+
+// POST /api/swaps on the control API: jobs whose swaps were started
+export interface SwapTriggerResult {
+  accepted: string[];
+}
+
+// A priced route for a swap that was not executed
+export interface SwapQuote {
+  jobName: string;
+  fromToken: string;
+  toToken: string;
+  fromChainId: string;
+  toChainId: string;
+  amountIn: string; // Base units
+  amountOut: string; // Base units, estimated
+  amountInFormatted: string;
+  amountOutFormatted: string;
+  amountInUSD: number;
+  effectiveRate: number;
+  priceCheck: PriceDeviationCheck;
+  routeFeesUSD: number;
+  blockers: string[]; // Why executeSwap would cancel this swap; empty when it would go ahead
+  route: RoutePreview;
+  destinationChoice?: DestinationChoice;
+  quotedAt: string;
+}
+
+// One operation of a Skip route
+export interface RouteStep {
+  index: number;
+  txIndex: number; // Which of the route's transactions performs this step
+  operation: string; // Skip operation type, e.g. transfer, swap, evmSwap, axelarTransfer
+  action: 'swap' | 'transfer';
+  fromChainId: string;
+  toChainId: string;
+  denomIn: string;
+  denomOut: string;
+  amountIn: string; // Base units of denomIn
+  amountOut: string; // Base units of denomOut, estimated
+  venues: string[]; // Swaps only
+  bridge?: string; // Transfers only
+  priceImpactPercent?: number;
+  fees: RouteFee[];
+}
+
+// Everything Skip reported about a route, without signing anything
+export interface RoutePreview {
+  steps: RouteStep[];
+  chainIds: string[];
+  requiredChainAddresses: Array<{ chainId: string; address?: string }>;
+  txsRequired: number;
+  estimatedDurationSeconds: number;
+  priceImpactPercent?: number;
+  usdAmountIn?: number;
+  usdAmountOut?: number;
+  warning?: { type: string; message: string }; // Skip's route warning, e.g. BAD_PRICE_WARNING
+  fees: RouteFee[]; // All fees, including ones not tied to a single step
+}
+
+export interface HistoryPage {
+  transactions: SwapTransaction[];
+  total: number; // Matching records before limit/offset
+  limit: number;
+  offset: number;
+}
+
+export type ReportPeriod = 'daily' | 'weekly' | 'monthly';
+
+// Completed swaps of one source → destination token pair within a report period
+export interface ReportPairStats {
+  fromToken: string;
+  toToken: string;
+  swaps: number;
+  sold: number; // Whole source units
+  received: number; // Whole destination units
+  averageRate: number; // received / sold
+  bestRate: number;
+  worstRate: number;
+  oracleAverageRate?: number; // Mean oracle rate at quote time, when swaps had a price check
+  vsOraclePercent?: number; // averageRate relative to oracleAverageRate
+}
+
+export interface PerformanceReport {
+  period: ReportPeriod;
+  from: string;
+  to: string;
+  generatedAt: string;
+  swaps: {
+    completed: number;
+    failed: number; // Including stuck swaps
+    pending: number; // Still pending or timed out
+    skipped: number;
+  };
+  skipReasons: Record<string, number>;
+  pairs: ReportPairStats[];
+  volumeUSD: number;
+  feesUSD: number;
+  balances: {
+    kyve: string;
+    usdc: Record<string, string>;
+  };
+}
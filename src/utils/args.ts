@@ -0,0 +1,67 @@
+// Switches that never take a value, so `--dry-run kyve-base` leaves the job name positional.
+// They are 'true' when given, or 'false' with `--flag=false`.
+const BOOLEAN_FLAGS = ['dry-run', 'json', 'slices', 'send', 'from-env', 'force', 'help'];
+
+// Splits CLI arguments into --flags (`--key value` or `--key=value`) and positional values
+export function parseFlags(args: string[]): { flags: Record<string, string>; positional: string[] } {
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      positional.push(arg);
+      continue;
+    }
+
+    const [key, inlineValue] = arg.slice(2).split(/=(.*)/s, 2);
+    if (BOOLEAN_FLAGS.includes(key)) {
+      if (inlineValue !== undefined && inlineValue !== 'true' && inlineValue !== 'false') {
+        throw new UsageError(`--${key} takes no value (use --${key}=false to turn it off)`);
+      }
+      flags[key] = inlineValue ?? 'true';
+    } else if (inlineValue !== undefined) {
+      flags[key] = inlineValue;
+    } else if (i + 1 < args.length && !args[i + 1].startsWith('--')) {
+      flags[key] = args[++i];
+    } else {
+      flags[key] = 'true';
+    }
+  }
+
+  return { flags, positional };
+}
+
+// Bad command-line input; the CLI prints the command's usage and exits with code 2
+export class UsageError extends Error {}
+
+// Rejects flags a command doesn't accept, so typos don't silently fall back to defaults
+export function checkFlags(flags: Record<string, string>, allowed: string[]): void {
+  const unknown = Object.keys(flags).filter(flag => !allowed.includes(flag));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown option ${unknown.map(flag => `--${flag}`).join(', ')}`);
+  }
+}
+
+export function parseNumberFlag(flags: Record<string, string>, name: string): number | undefined {
+  if (flags[name] === undefined) {
+    return undefined;
+  }
+  const value = Number(flags[name]);
+  if (flags[name] === 'true' || !isFinite(value)) {
+    throw new UsageError(`--${name} expects a number, got "${flags[name]}"`);
+  }
+  return value;
+}
+
+// YYYY-MM-DD covers the whole UTC day (start of day, or end of day when endOfDay is set);
+// anything else is parsed as a full timestamp
+export function parseDateFlag(value: string, endOfDay: boolean): Date {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`
+    : value);
+  if (isNaN(date.getTime())) {
+    throw new UsageError(`Invalid date "${value}", expected YYYY-MM-DD`);
+  }
+  return date;
+}
@@ -0,0 +1,27 @@
+const CHAIN_NAMES: Record<string, string> = {
+  '1': 'Ethereum L1',
+  '8453': 'Base L2',
+  'kyve-1': 'KYVE',
+  'cosmoshub-4': 'Cosmos Hub',
+  'osmosis-1': 'Osmosis',
+  'noble-1': 'Noble',
+  'axelar-dojo-1': 'Axelar',
+};
+
+export function getChainDisplayName(chainId: string): string {
+  return CHAIN_NAMES[chainId] || `Chain ${chainId}`;
+}
+
+// Bech32 prefix used to derive this wallet's address on a Cosmos chain
+export function getAddressPrefix(chainId: string): string {
+  if (chainId.includes('kyve')) {
+    return 'kyve';
+  } else if (chainId.includes('noble')) {
+    return 'noble';
+  } else if (chainId.includes('osmosis')) {
+    return 'osmo';
+  } else if (chainId.includes('axelar')) {
+    return 'axelar';
+  }
+  return 'cosmos';
+}
@@ -1,13 +1,30 @@
 import { TransactionLogger } from '../services/transactionLogger';
+import { listExporters, parseExportArgs } from '../services/exporters';
 import { logger } from './logger';
 
 async function main() {
   try {
+    const args = process.argv.slice(2);
+    if (args.includes('--help')) {
+      console.log('Usage: npm run export-csv -- [--format <format>] [--from YYYY-MM-DD] [--to YYYY-MM-DD] [--currency USD]');
+      console.log('\nFormats:');
+      for (const exporter of listExporters()) {
+        console.log(`  ${exporter.format.padEnd(12)} ${exporter.description}`);
+      }
+      return;
+    }
+
+    const { format, options } = parseExportArgs(args);
     const transactionLogger = new TransactionLogger();
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `swap_history_${timestamp}.csv`;
+    await transactionLogger.ready();
+
+    let filename: string | undefined;
+    if (format === 'default') {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      filename = `swap_history_${timestamp}.csv`;
+    }
 
-    const path = await transactionLogger.exportToCSV(filename);
+    const path = await transactionLogger.exportTransactions(format, options, filename);
     console.log(`✅ Transactions exported successfully to: ${path}`);
 
     const stats = {
@@ -28,4 +45,4 @@ async function main() {
   }
 }
 
-main();
\ No newline at end of file
+main();
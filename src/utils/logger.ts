@@ -24,11 +24,11 @@ const consoleFormat = winston.format.combine(
   })
 );
 
-const transports: winston.transport[] = [
-  new winston.transports.Console({
-    format: consoleFormat,
-  }),
-];
+const consoleTransport = new winston.transports.Console({
+  format: consoleFormat,
+});
+
+const transports: winston.transport[] = [consoleTransport];
 
 if (config.logging.toFile) {
   transports.push(
@@ -58,6 +58,11 @@ export const logger = winston.createLogger({
   transports,
 });
 
+// Keeps log lines off stdout so it carries only a command's JSON output; log files still get them
+export function silenceConsoleLogs(): void {
+  consoleTransport.silent = true;
+}
+
 export function logSwap(message: string, data?: any) {
   logger.info(`[SWAP] ${message}`, data);
 }
@@ -0,0 +1,41 @@
+// Reads one line from the terminal without echoing it. The question goes to stderr so
+// --json output stays clean; fails when stdin is not a terminal (PM2, systemd, pipes).
+export function promptSecret(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    return Promise.reject(new Error(`Cannot ask for "${question.replace(/:\s*$/, '')}" without an interactive terminal`));
+  }
+
+  return new Promise((resolve, reject) => {
+    let input = '';
+
+    const finish = () => {
+      stdin.off('data', onData);
+      stdin.setRawMode(false);
+      stdin.pause();
+      process.stderr.write('\n');
+    };
+
+    const onData = (chunk: string) => {
+      for (const char of chunk) {
+        if (char === '\r' || char === '\n') {
+          finish();
+          resolve(input);
+          return;
+        }
+        if (char === '\u0003') { // Ctrl+C
+          finish();
+          reject(new Error('Cancelled'));
+          return;
+        }
+        input = char === '\u007f' || char === '\b' ? input.slice(0, -1) : input + char;
+      }
+    };
+
+    process.stderr.write(question);
+    stdin.setRawMode(true);
+    stdin.setEncoding('utf8');
+    stdin.resume();
+    stdin.on('data', onData);
+  });
+}